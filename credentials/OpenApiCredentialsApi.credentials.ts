@@ -1,4 +1,4 @@
-import type { ICredentialTestRequest, ICredentialType, INodeProperties, Icon } from 'n8n-workflow';
+import type { ICredentialType, INodeProperties, Icon } from 'n8n-workflow';
 
 export class OpenApiCredentialsApi implements ICredentialType {
 	name = 'openApiCredentialsApi';
@@ -7,6 +7,18 @@ export class OpenApiCredentialsApi implements ICredentialType {
 	icon: Icon = 'file:../nodes/OpenApi/openapi.svg';
 
 	properties: INodeProperties[] = [
+		{
+			displayName: 'Spec Source',
+			name: 'specSource',
+			type: 'options',
+			options: [
+				{ name: 'URL', value: 'url' },
+				{ name: 'Text', value: 'text' },
+				{ name: 'File Path', value: 'file' },
+			],
+			default: 'url',
+			description: 'Where to load the OpenAPI specification from',
+		},
 		{
 			displayName: 'OpenAPI Spec URL',
 			name: 'specUrl',
@@ -15,6 +27,39 @@ export class OpenApiCredentialsApi implements ICredentialType {
 			required: true,
 			placeholder: 'https://api.example.com/openapi.json',
 			description: 'URL to the OpenAPI specification (JSON or YAML)',
+			displayOptions: {
+				show: {
+					specSource: ['url'],
+				},
+			},
+		},
+		{
+			displayName: 'OpenAPI Spec',
+			name: 'specContent',
+			type: 'string',
+			default: '',
+			required: true,
+			typeOptions: { rows: 10 },
+			description: 'The OpenAPI specification (JSON or YAML)',
+			displayOptions: {
+				show: {
+					specSource: ['text'],
+				},
+			},
+		},
+		{
+			displayName: 'OpenAPI Spec File Path',
+			name: 'specFilePath',
+			type: 'string',
+			default: '',
+			required: true,
+			placeholder: '/data/specs/openapi.yaml',
+			description: 'Path to the OpenAPI specification (JSON or YAML) on the machine running n8n',
+			displayOptions: {
+				show: {
+					specSource: ['file'],
+				},
+			},
 		},
 		{
 			displayName: 'Base URL Override',
@@ -24,6 +69,15 @@ export class OpenApiCredentialsApi implements ICredentialType {
 			placeholder: 'https://api.example.com/v1',
 			description: 'Override the base URL from the spec. Leave empty to use the URL from the spec.',
 		},
+		{
+			displayName: 'Spec Cache TTL (Seconds)',
+			name: 'specCacheTtl',
+			type: 'number',
+			default: 300,
+			typeOptions: { minValue: 0 },
+			description:
+				'How long the parsed spec is reused before it is revalidated with the server using ETag/Last-Modified. Set to 0 to revalidate on every use.',
+		},
 		{
 			displayName: 'Authentication Type',
 			name: 'authType',
@@ -33,6 +87,8 @@ export class OpenApiCredentialsApi implements ICredentialType {
 				{ name: 'API Key', value: 'apiKey' },
 				{ name: 'Bearer Token', value: 'bearer' },
 				{ name: 'Basic Auth', value: 'basic' },
+				{ name: 'Spec Security Schemes', value: 'securitySchemes' },
+				{ name: 'OAuth2 Client Credentials', value: 'oauth2ClientCredentials' },
 			],
 			default: 'none',
 			description: 'The authentication method to use',
@@ -57,6 +113,7 @@ export class OpenApiCredentialsApi implements ICredentialType {
 			options: [
 				{ name: 'Header', value: 'header' },
 				{ name: 'Query Parameter', value: 'query' },
+				{ name: 'Cookie', value: 'cookie' },
 			],
 			default: 'header',
 			displayOptions: {
@@ -77,7 +134,7 @@ export class OpenApiCredentialsApi implements ICredentialType {
 					authType: ['apiKey'],
 				},
 			},
-			description: 'The name of the header or query parameter for the API key',
+			description: 'The name of the header, query parameter or cookie for the API key',
 			typeOptions: { password: true },
 		},
 		{
@@ -118,13 +175,126 @@ export class OpenApiCredentialsApi implements ICredentialType {
 			},
 			description: 'The password for basic authentication',
 		},
-	];
-
-	test: ICredentialTestRequest = {
-		request: {
-			baseURL: '={{$credentials.specUrl}}',
-			method: 'GET',
-			url: '',
+		{
+			displayName: 'Security Scheme Credentials',
+			name: 'securitySchemeCredentials',
+			type: 'fixedCollection',
+			typeOptions: { multipleValues: true },
+			default: {},
+			placeholder: 'Add Scheme',
+			displayOptions: {
+				show: {
+					authType: ['securitySchemes'],
+				},
+			},
+			description:
+				'Credentials for the security schemes declared in the spec. Each operation only uses the schemes it requires.',
+			options: [
+				{
+					name: 'schemes',
+					displayName: 'Scheme',
+					values: [
+						{
+							displayName: 'Scheme Name',
+							name: 'schemeName',
+							type: 'string',
+							default: '',
+							placeholder: 'api_key',
+							description: 'Name of the scheme in components.securitySchemes',
+						},
+						{
+							displayName: 'Value',
+							name: 'value',
+							type: 'string',
+							typeOptions: { password: true },
+							default: '',
+							description: 'API key or token. Not used by HTTP basic schemes.',
+						},
+						{
+							displayName: 'Username',
+							name: 'username',
+							type: 'string',
+							default: '',
+							description: 'Username for HTTP basic schemes',
+						},
+						{
+							displayName: 'Password',
+							name: 'password',
+							type: 'string',
+							typeOptions: { password: true },
+							default: '',
+							description: 'Password for HTTP basic schemes',
+						},
+					],
+				},
+			],
 		},
-	};
+		{
+			displayName: 'Client ID',
+			name: 'clientId',
+			type: 'string',
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['oauth2ClientCredentials'],
+				},
+			},
+			description: 'The OAuth2 client ID',
+		},
+		{
+			displayName: 'Client Secret',
+			name: 'clientSecret',
+			type: 'string',
+			typeOptions: { password: true },
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['oauth2ClientCredentials'],
+				},
+			},
+			description: 'The OAuth2 client secret',
+		},
+		{
+			displayName: 'Client Authentication',
+			name: 'clientAuthentication',
+			type: 'options',
+			options: [
+				{ name: 'Send as Basic Auth Header', value: 'header' },
+				{ name: 'Send Client Credentials in Body', value: 'body' },
+			],
+			default: 'header',
+			displayOptions: {
+				show: {
+					authType: ['oauth2ClientCredentials'],
+				},
+			},
+			description: 'How the client ID and secret are sent to the token endpoint',
+		},
+		{
+			displayName: 'Token URL Override',
+			name: 'oauth2TokenUrl',
+			type: 'string',
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['oauth2ClientCredentials'],
+				},
+			},
+			description:
+				"Override the token URL from the spec's OAuth2 security scheme. Leave empty to use the URL from the spec.",
+		},
+		{
+			displayName: 'Scopes Override',
+			name: 'oauth2Scopes',
+			type: 'string',
+			default: '',
+			displayOptions: {
+				show: {
+					authType: ['oauth2ClientCredentials'],
+				},
+			},
+			description:
+				"Space-separated scopes to request. Leave empty to request the scopes the operation's security requirement lists.",
+		},
+	];
 }
@@ -1,28 +1,98 @@
+import { Buffer } from 'node:buffer';
+import { Readable } from 'node:stream';
 import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
 	IDataObject,
 	IExecuteFunctions,
 	IHttpRequestOptions,
 	ILoadOptionsFunctions,
+	IN8nHttpFullResponse,
+	INodeCredentialTestResult,
 	INodeExecutionData,
+	INodeListSearchResult,
 	INodePropertyOptions,
 	INodeType,
 	INodeTypeDescription,
+	JsonObject,
 	ResourceMapperFields,
 	ResourceMapperField,
 } from 'n8n-workflow';
-import { NodeConnectionTypes, NodeOperationError } from 'n8n-workflow';
-import { parseOpenApiSpec } from './lib/parseOpenApiSpec';
-import { extractOperations } from './lib/extractOperations';
+import {
+	BINARY_ENCODING,
+	NodeApiError,
+	NodeConnectionTypes,
+	NodeOperationError,
+} from 'n8n-workflow';
+import type { Credentials } from './lib/authentication';
+import { escapePathSegment, flattenSchema, unflattenFields } from './lib/bodyFields';
 import { buildRequestOptions, type BodyData } from './lib/buildRequestOptions';
+import { getSchemaVariants, mergeAllOf, resolveSchemaVariant } from './lib/composeSchema';
+import { parseErrorResponse } from './lib/errorResponse';
+import type { MultipartFile } from './lib/multipart';
+import {
+	getAccessToken,
+	invalidateAccessToken,
+	isOAuth2,
+	resolveOAuth2Config,
+	type OAuth2Config,
+	type TokenRequester,
+} from './lib/oauth2';
+import { searchOperations } from './lib/operationSearch';
+import {
+	extractRecords,
+	paginate,
+	type PageRequest,
+	type PageResponse,
+	type PaginationOptions,
+} from './lib/pagination';
+import { parseOpenApiSpec } from './lib/parseOpenApiSpec';
+import {
+	getBodyFormat,
+	getRequestBodyContent,
+	MEDIA_TYPE_PATTERNS,
+	normalizeMediaType,
+	type BodyFormat,
+} from './lib/requestBody';
+import { getServers, resolveServerUrl, selectServer } from './lib/resolveServer';
+import { decodeResponseBody, expectsBinaryResponse, getFileName } from './lib/responseBody';
+import {
+	canRetry,
+	DEFAULT_RETRY_OPTIONS,
+	parseStatusCodes,
+	withRetry,
+	type RetryOptions,
+	type RetryResponse,
+} from './lib/retry';
+import {
+	loadCachedSpec,
+	type LoadedSpec,
+	type SpecFetchResult,
+	type SpecValidators,
+} from './lib/specCache';
+import { createSpecFetcher, getSpecCacheKey, getSpecSource, getSpecUrl } from './lib/specSource';
 import type {
 	OpenApiDocument,
 	OpenApiSchema,
+	OpenApiServer,
+	ParameterValues,
+	ParsedOperation,
 	ParsedParameter,
 	ParsedRequestBody,
+	RequestBodyContent,
 } from './lib/types';
+import { getSchemaType, isObject, toDisplayName } from './lib/utils';
+import { validateRequest } from './lib/validateRequest';
+import { findResponseSchema, validateResponse } from './lib/validateResponse';
+import { formatViolation, type SchemaViolation } from './lib/validateSchema';
+import { buildXml, parseXml, xmlToJson } from './lib/xml';
 
 type FetchContext = ILoadOptionsFunctions | IExecuteFunctions;
 
+const OPERATION_PAGE_SIZE = 100;
+
+const contentTypeIs = (format: BodyFormat) => ({ _cnd: { regex: MEDIA_TYPE_PATTERNS[format] } });
+
 export class OpenApi implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'OpenAPI',
@@ -30,7 +100,7 @@ export class OpenApi implements INodeType {
 		icon: 'file:openapi.svg',
 		group: ['transform'],
 		version: 1,
-		subtitle: '={{$parameter["operation"]}}',
+		subtitle: '={{$parameter["operation"].value || $parameter["operation"]}}',
 		description: 'Execute operations from any OpenAPI specification',
 		defaults: {
 			name: 'OpenAPI',
@@ -42,20 +112,73 @@ export class OpenApi implements INodeType {
 			{
 				name: 'openApiCredentialsApi',
 				required: true,
+				testedBy: 'testSpecSource',
 			},
 		],
 		properties: [
 			{
-				displayName: 'Operation Name or ID',
+				displayName: 'Operation',
 				name: 'operation',
+				type: 'resourceLocator',
+				default: { mode: 'list', value: '' },
+				required: true,
+				noDataExpression: true,
+				description: 'The API operation to call',
+				modes: [
+					{
+						displayName: 'From List',
+						name: 'list',
+						type: 'list',
+						placeholder: 'Select an operation...',
+						typeOptions: {
+							searchListMethod: 'searchOperations',
+							searchable: true,
+						},
+					},
+					{
+						displayName: 'By ID',
+						name: 'id',
+						type: 'string',
+						placeholder: 'e.g. listPets',
+					},
+				],
+			},
+			{
+				displayName: 'Server Name or ID',
+				name: 'server',
 				type: 'options',
 				description:
 					'Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>',
+				default: '',
+				typeOptions: {
+					loadOptionsMethod: 'getServers',
+					loadOptionsDependsOn: ['operation.value'],
+				},
+			},
+			{
+				displayName: 'Server Variables',
+				name: 'serverVariables',
+				type: 'resourceMapper',
 				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
 				typeOptions: {
-					loadOptionsMethod: 'getOperations',
+					resourceMapper: {
+						resourceMapperMethod: 'getServerVariables',
+						mode: 'add',
+						fieldWords: {
+							singular: 'variable',
+							plural: 'variables',
+						},
+						addAllFields: true,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+					loadOptionsDependsOn: ['operation.value', 'server'],
 				},
-				default: '',
+				description: 'Values for the variables in the server URL template',
 			},
 			{
 				displayName: 'Content Type Name or ID',
@@ -67,7 +190,7 @@ export class OpenApi implements INodeType {
 				default: '',
 				typeOptions: {
 					loadOptionsMethod: 'getContentType',
-					loadOptionsDependsOn: ['operation'],
+					loadOptionsDependsOn: ['operation.value'],
 				},
 			},
 			{
@@ -91,7 +214,7 @@ export class OpenApi implements INodeType {
 						multiKeyMatch: false,
 						supportAutoMap: false,
 					},
-					loadOptionsDependsOn: ['operation'],
+					loadOptionsDependsOn: ['operation.value'],
 				},
 				description: 'Path parameters for the URL template',
 			},
@@ -116,10 +239,82 @@ export class OpenApi implements INodeType {
 						multiKeyMatch: false,
 						supportAutoMap: false,
 					},
-					loadOptionsDependsOn: ['operation'],
+					loadOptionsDependsOn: ['operation.value'],
 				},
 				description: 'Query string parameters',
 			},
+			{
+				displayName: 'Header Parameters',
+				name: 'headerParameters',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getHeaderParameters',
+						mode: 'add',
+						fieldWords: {
+							singular: 'parameter',
+							plural: 'parameters',
+						},
+						addAllFields: true,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+					loadOptionsDependsOn: ['operation.value'],
+				},
+				description: 'Request header parameters',
+			},
+			{
+				displayName: 'Cookie Parameters',
+				name: 'cookieParameters',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getCookieParameters',
+						mode: 'add',
+						fieldWords: {
+							singular: 'parameter',
+							plural: 'parameters',
+						},
+						addAllFields: true,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+					loadOptionsDependsOn: ['operation.value'],
+				},
+				description: 'Cookies sent in the Cookie header',
+			},
+			{
+				displayName: 'Body Variant Name or ID',
+				name: 'bodyVariant',
+				type: 'options',
+				description:
+					'Which alternative of the request body to send, for bodies defined with oneOf or anyOf. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				default: '',
+				typeOptions: {
+					loadOptionsMethod: 'getBodyVariants',
+					loadOptionsDependsOn: ['operation.value', 'contentType'],
+				},
+				displayOptions: {
+					show: {
+						contentType: [
+							contentTypeIs('json'),
+							contentTypeIs('xml'),
+							contentTypeIs('form'),
+							contentTypeIs('multipart'),
+						],
+					},
+				},
+			},
 			{
 				displayName: 'JSON Input Mode',
 				name: 'jsonInputMode',
@@ -139,7 +334,7 @@ export class OpenApi implements INodeType {
 				default: 'fields',
 				displayOptions: {
 					show: {
-						contentType: ['application/json'],
+						contentType: [contentTypeIs('json')],
 					},
 				},
 				description: 'How to provide the JSON request body',
@@ -165,11 +360,11 @@ export class OpenApi implements INodeType {
 						multiKeyMatch: false,
 						supportAutoMap: false,
 					},
-					loadOptionsDependsOn: ['operation'],
+					loadOptionsDependsOn: ['operation.value', 'contentType', 'bodyVariant'],
 				},
 				displayOptions: {
 					show: {
-						contentType: ['application/json'],
+						contentType: [contentTypeIs('json')],
 						jsonInputMode: ['fields'],
 					},
 				},
@@ -186,11 +381,66 @@ export class OpenApi implements INodeType {
 				},
 				displayOptions: {
 					show: {
-						contentType: ['application/json'],
+						contentType: [contentTypeIs('json')],
 						jsonInputMode: ['raw'],
 					},
 				},
 			},
+			{
+				displayName: 'XML Input Mode',
+				name: 'xmlInputMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Use Schema Fields',
+						value: 'fields',
+						description: 'Fill in fields based on the API schema',
+					},
+					{
+						name: 'Raw XML',
+						value: 'raw',
+						description: 'Enter raw XML directly',
+					},
+				],
+				default: 'raw',
+				displayOptions: {
+					show: {
+						contentType: [contentTypeIs('xml')],
+					},
+				},
+				description: 'How to provide the XML request body',
+			},
+			{
+				displayName: 'Request Body',
+				name: 'xmlBodyFields',
+				type: 'resourceMapper',
+				noDataExpression: true,
+				default: {
+					mappingMode: 'defineBelow',
+					value: null,
+				},
+				typeOptions: {
+					resourceMapper: {
+						resourceMapperMethod: 'getXmlBodyFields',
+						mode: 'add',
+						fieldWords: {
+							singular: 'field',
+							plural: 'fields',
+						},
+						addAllFields: true,
+						multiKeyMatch: false,
+						supportAutoMap: false,
+					},
+					loadOptionsDependsOn: ['operation.value', 'contentType', 'bodyVariant'],
+				},
+				displayOptions: {
+					show: {
+						contentType: [contentTypeIs('xml')],
+						xmlInputMode: ['fields'],
+					},
+				},
+				description: 'XML body fields based on the API schema',
+			},
 			{
 				displayName: 'Request Body (XML)',
 				name: 'requestBodyXml',
@@ -202,7 +452,23 @@ export class OpenApi implements INodeType {
 				},
 				displayOptions: {
 					show: {
-						contentType: ['application/xml'],
+						contentType: [contentTypeIs('xml')],
+						xmlInputMode: ['raw'],
+					},
+				},
+			},
+			{
+				displayName: 'Request Body (Text)',
+				name: 'requestBodyText',
+				type: 'string',
+				default: '',
+				description: 'Plain text request body, such as CSV',
+				typeOptions: {
+					rows: 5,
+				},
+				displayOptions: {
+					show: {
+						contentType: [contentTypeIs('text')],
 					},
 				},
 			},
@@ -227,11 +493,11 @@ export class OpenApi implements INodeType {
 						multiKeyMatch: false,
 						supportAutoMap: false,
 					},
-					loadOptionsDependsOn: ['operation'],
+					loadOptionsDependsOn: ['operation.value', 'contentType', 'bodyVariant'],
 				},
 				displayOptions: {
 					show: {
-						contentType: ['application/x-www-form-urlencoded', 'multipart/form-data'],
+						contentType: [contentTypeIs('form'), contentTypeIs('multipart')],
 					},
 				},
 				description: 'Form fields for form-urlencoded or multipart requests',
@@ -241,39 +507,389 @@ export class OpenApi implements INodeType {
 				name: 'binaryPropertyName',
 				type: 'string',
 				default: 'data',
-				description: 'Name of the binary property containing the file to upload',
+				description:
+					'Name of the binary property containing the file to upload. For multipart requests, it fills the first file field left empty.',
 				displayOptions: {
 					show: {
-						contentType: ['multipart/form-data'],
+						contentType: [contentTypeIs('multipart'), contentTypeIs('binary')],
 					},
 				},
 			},
+			{
+				displayName: 'Validate Request',
+				name: 'validateRequest',
+				type: 'boolean',
+				default: true,
+				description:
+					'Whether to check parameters and the request body against the operation schema before sending',
+			},
+			{
+				displayName: 'Validate Response',
+				name: 'validateResponse',
+				type: 'options',
+				options: [
+					{
+						name: 'Off',
+						value: 'off',
+						description: 'Return the response without checking it',
+					},
+					{
+						name: 'Flag',
+						value: 'flag',
+						description:
+							'Add a _responseValidation field listing each violation to items that do not match',
+					},
+					{
+						name: 'Fail',
+						value: 'fail',
+						description: 'Stop the execution when the response does not match',
+					},
+				],
+				default: 'off',
+				description:
+					'Whether to check the response status, content type and body against the documented responses',
+			},
+			{
+				displayName: 'Put Output File in Field',
+				name: 'outputBinaryPropertyName',
+				type: 'string',
+				default: 'data',
+				hint: 'The name of the output binary field to put the file in',
+				description:
+					'Binary property that receives file downloads, such as PDFs or images. JSON and text responses are returned as JSON.',
+			},
+			{
+				displayName: 'Include Response Headers and Status',
+				name: 'fullResponse',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return the status code, headers and body instead of only the body',
+				displayOptions: {
+					show: {
+						returnAll: [false],
+					},
+				},
+			},
+			{
+				displayName: 'Never Error',
+				name: 'neverError',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to return non-2xx responses as data with their status code, headers and body instead of failing',
+			},
+			{
+				displayName: 'Retry Failed Requests',
+				name: 'retryEnabled',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to retry rate-limited and failed requests with exponential backoff inside the node',
+			},
+			{
+				displayName: 'Retry',
+				name: 'retry',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						retryEnabled: [true],
+					},
+				},
+				description:
+					'Retries rate-limited and failed requests with exponential backoff, honoring Retry-After and X-RateLimit-Reset headers',
+				options: [
+					{
+						displayName: 'Base Delay (Ms)',
+						name: 'baseDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 1000,
+						description: 'Delay before the first retry. Each further retry waits twice as long.',
+					},
+					{
+						displayName: 'Jitter',
+						name: 'jitter',
+						type: 'number',
+						typeOptions: { minValue: 0, maxValue: 1, numberPrecision: 2 },
+						default: 0.2,
+						description:
+							'Fraction of the delay that is randomly added or removed, so parallel executions do not retry in lockstep',
+					},
+					{
+						displayName: 'Max Attempts',
+						name: 'maxAttempts',
+						type: 'number',
+						typeOptions: { minValue: 1 },
+						default: 3,
+						description: 'Total number of attempts, including the first. 1 disables retries.',
+					},
+					{
+						displayName: 'Max Delay (Ms)',
+						name: 'maxDelay',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 60000,
+						description:
+							'Longest wait between attempts. If the server asks to wait longer, the request fails instead.',
+					},
+					{
+						displayName: 'Retry Non-Idempotent Methods',
+						name: 'retryNonIdempotent',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to also retry POST and PATCH requests, which may apply the change twice',
+					},
+					{
+						displayName: 'Retry on Status Codes',
+						name: 'statusCodes',
+						type: 'string',
+						default: '429, 500-599',
+						description: 'Comma-separated status codes and ranges to retry',
+					},
+				],
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+				hint: 'Follows pagination until every page is fetched and returns each record as its own item',
+			},
+			{
+				displayName: 'Pagination',
+				name: 'pagination',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						returnAll: [true],
+					},
+				},
+				options: [
+					{
+						displayName: 'Cursor Parameter',
+						name: 'cursorParameter',
+						type: 'string',
+						default: '',
+						description: 'Query parameter that receives the next cursor',
+						displayOptions: {
+							show: {
+								mode: ['cursor'],
+							},
+						},
+					},
+					{
+						displayName: 'Cursor Path',
+						name: 'cursorPath',
+						type: 'string',
+						default: '',
+						placeholder: 'meta.next_cursor',
+						description:
+							'Dot path to the next cursor in the response body. Leave empty to look in common locations.',
+						displayOptions: {
+							show: {
+								mode: ['cursor'],
+							},
+						},
+					},
+					{
+						displayName: 'Limit Parameter',
+						name: 'limitParameter',
+						type: 'string',
+						default: '',
+						description:
+							'Query parameter that sets the page size. Leave empty to detect it from the operation.',
+					},
+					{
+						displayName: 'Max Pages',
+						name: 'maxPages',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: 'Stop after this many pages. 0 fetches every page.',
+					},
+					{
+						displayName: 'Max Records',
+						name: 'maxRecords',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description: 'Stop after this many records. 0 means no limit.',
+					},
+					{
+						displayName: 'Mode',
+						name: 'mode',
+						type: 'options',
+						options: [
+							{ name: 'Auto Detect', value: 'auto' },
+							{ name: 'Cursor', value: 'cursor' },
+							{ name: 'Link Header', value: 'linkHeader' },
+							{ name: 'Next URL in Body', value: 'nextUrl' },
+							{ name: 'Offset', value: 'offset' },
+							{ name: 'Page Number', value: 'page' },
+						],
+						default: 'auto',
+						description:
+							'How to find the next page. Auto Detect follows Link headers and next URLs in the body, then falls back to cursor, page or offset query parameters the operation declares.',
+					},
+					{
+						displayName: 'Next URL Path',
+						name: 'nextUrlPath',
+						type: 'string',
+						default: '',
+						placeholder: 'links.next',
+						description:
+							'Dot path to the next page URL in the response body. Leave empty to look in common locations.',
+						displayOptions: {
+							show: {
+								mode: ['nextUrl'],
+							},
+						},
+					},
+					{
+						displayName: 'Offset Parameter',
+						name: 'offsetParameter',
+						type: 'string',
+						default: '',
+						description: 'Query parameter that receives the offset of the next page',
+						displayOptions: {
+							show: {
+								mode: ['offset'],
+							},
+						},
+					},
+					{
+						displayName: 'Page Parameter',
+						name: 'pageParameter',
+						type: 'string',
+						default: '',
+						description: 'Query parameter that receives the next page number',
+						displayOptions: {
+							show: {
+								mode: ['page'],
+							},
+						},
+					},
+					{
+						displayName: 'Page Size',
+						name: 'pageSize',
+						type: 'number',
+						typeOptions: { minValue: 0 },
+						default: 0,
+						description:
+							'Value sent in the limit parameter on every page. 0 keeps the API default.',
+					},
+					{
+						displayName: 'Records Path',
+						name: 'recordsPath',
+						type: 'string',
+						default: '',
+						placeholder: 'data.items',
+						description:
+							'Dot path to the array of records in the response body. Leave empty to detect it.',
+					},
+				],
+			},
 		],
 	};
 
 	methods = {
+		credentialTest: {
+			// Loads the spec from whichever source the credential uses.
+			async testSpecSource(
+				this: ICredentialTestFunctions,
+				credential: ICredentialsDecrypted,
+			): Promise<INodeCredentialTestResult> {
+				const fetcher = createSpecFetcher(getSpecSource(credential.data ?? {}), async (url) => {
+					// Credential tests only get `request`, which goes through n8n's proxy settings.
+					// eslint-disable-next-line @n8n/community-nodes/no-deprecated-workflow-functions
+					const content = (await this.helpers.request({ uri: url, json: false })) as string;
+					return { notModified: false, content };
+				});
+				try {
+					const result = await fetcher({});
+					if (!result.notModified) await parseOpenApiSpec(result.content);
+				} catch (error) {
+					return { status: 'Error', message: (error as Error).message };
+				}
+				return { status: 'OK', message: 'OpenAPI spec loaded' };
+			},
+		},
+		listSearch: {
+			async searchOperations(
+				this: ILoadOptionsFunctions,
+				filter?: string,
+				paginationToken?: string,
+			): Promise<INodeListSearchResult> {
+				const { spec, operations } = await loadSpec(this);
+				const results = searchOperations(spec, operations, filter);
+				const offset = Number(paginationToken ?? 0);
+				const next = offset + OPERATION_PAGE_SIZE;
+				return {
+					results: results.slice(offset, next),
+					paginationToken: next < results.length ? String(next) : undefined,
+				};
+			},
+		},
 		loadOptions: {
-			async getOperations(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
-				const credentials = await this.getCredentials('openApiCredentialsApi');
-				const specUrl = credentials.specUrl as string;
-
-				const specContent = await fetchSpec(this, specUrl);
-				const spec = await parseOpenApiSpec(specContent);
-				const operations = extractOperations(spec);
-
-				return operations.map((op) => ({
-					name: op.summary || op.operationId,
-					value: op.operationId,
-					description: `${op.method.toUpperCase()} ${op.path}`,
+			async getServers(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const { spec } = await loadSpec(this);
+				const operation = await getSelectedOperation(this);
+				return getServers(spec, operation).map((server) => ({
+					name: server.description || server.url,
+					value: server.url,
+					description: server.url,
 				}));
 			},
 			async getContentType(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
 				const operation = await getSelectedOperation(this);
-				const contentType = operation?.requestBody?.contentType ?? '';
-				return [{ name: contentType, value: contentType }];
+				const requestBody = operation?.requestBody;
+				if (!requestBody) return [{ name: '', value: '' }];
+				return (requestBody.contents ?? [requestBody]).map(({ contentType }) => ({
+					name: contentType,
+					value: normalizeMediaType(contentType),
+				}));
+			},
+			async getBodyVariants(this: ILoadOptionsFunctions): Promise<INodePropertyOptions[]> {
+				const operation = await getSelectedOperation(this);
+				if (!operation?.requestBody) return [];
+				const { schema } = getSelectedContent(this, operation.requestBody);
+				return getSchemaVariants(schema).map((variant) => ({
+					name: variant.name,
+					value: variant.name,
+					description: variant.schema.description,
+				}));
 			},
 		},
 		resourceMapping: {
+			async getServerVariables(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				const { spec } = await loadSpec(this);
+				const operation = await getSelectedOperation(this);
+				const serverUrl = this.getNodeParameter('server', '') as string;
+				const server = selectServer(getServers(spec, operation), serverUrl);
+				const variables = Object.entries(server?.variables ?? {});
+				if (variables.length === 0) {
+					return { fields: [], emptyFieldsNotice: 'This server has no variables' };
+				}
+				return {
+					fields: variables.map(([name, variable]) => ({
+						id: name,
+						displayName: toDisplayName(name),
+						required: false,
+						defaultMatch: false,
+						canBeUsedToMatch: false,
+						display: true,
+						type: variable.enum ? 'options' : 'string',
+						options: variable.enum?.map((value) => ({ name: value, value })),
+						defaultValue: variable.default,
+					})),
+				};
+			},
 			async getPathParameters(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
 				const operation = await getSelectedOperation(this);
 				if (!operation) {
@@ -296,27 +912,29 @@ export class OpenApi implements INodeType {
 				}
 				return { fields: parametersToResourceMapperFields(queryParams) };
 			},
-			async getFormFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+			async getHeaderParameters(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
 				const operation = await getSelectedOperation(this);
 				if (!operation) {
 					return { fields: [], emptyFieldsNotice: 'Select an operation first' };
 				}
-				if (!operation.requestBody) {
-					return { fields: [], emptyFieldsNotice: 'This operation has no request body' };
+				const headerParams = operation.parameters.filter((p) => p.in === 'header');
+				if (headerParams.length === 0) {
+					return { fields: [], emptyFieldsNotice: 'This operation has no header parameters' };
 				}
-				const contentType = operation.requestBody.contentType;
-				if (
-					contentType !== 'application/x-www-form-urlencoded' &&
-					contentType !== 'multipart/form-data'
-				) {
-					return {
-						fields: [],
-						emptyFieldsNotice: `Use ${contentType === 'application/json' ? 'JSON' : 'XML'} input for this operation`,
-					};
+				return { fields: parametersToResourceMapperFields(headerParams) };
+			},
+			async getCookieParameters(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				const operation = await getSelectedOperation(this);
+				if (!operation) {
+					return { fields: [], emptyFieldsNotice: 'Select an operation first' };
 				}
-				return { fields: schemaToResourceMapperFields(operation.requestBody.schema, contentType) };
+				const cookieParams = operation.parameters.filter((p) => p.in === 'cookie');
+				if (cookieParams.length === 0) {
+					return { fields: [], emptyFieldsNotice: 'This operation has no cookie parameters' };
+				}
+				return { fields: parametersToResourceMapperFields(cookieParams) };
 			},
-			async getJsonBodyFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+			async getFormFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
 				const operation = await getSelectedOperation(this);
 				if (!operation) {
 					return { fields: [], emptyFieldsNotice: 'Select an operation first' };
@@ -324,10 +942,22 @@ export class OpenApi implements INodeType {
 				if (!operation.requestBody) {
 					return { fields: [], emptyFieldsNotice: 'This operation has no request body' };
 				}
-				if (operation.requestBody.contentType !== 'application/json') {
-					return { fields: [], emptyFieldsNotice: 'This operation does not use JSON body' };
+				const content = getSelectedContent(this, operation.requestBody);
+				const format = getBodyFormat(content.contentType);
+				if (format !== 'form' && format !== 'multipart') {
+					return { fields: [], emptyFieldsNotice: 'This content type does not use form fields' };
 				}
-				return { fields: schemaToResourceMapperFields(operation.requestBody.schema) };
+				const { schema } = resolveSchemaVariant(
+					content.schema,
+					this.getNodeParameter('bodyVariant', '') as string,
+				);
+				return { fields: schemaToResourceMapperFields(schema, format) };
+			},
+			async getJsonBodyFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				return await getBodyFields(this, 'json');
+			},
+			async getXmlBodyFields(this: ILoadOptionsFunctions): Promise<ResourceMapperFields> {
+				return await getBodyFields(this, 'xml');
 			},
 		},
 	};
@@ -337,15 +967,15 @@ export class OpenApi implements INodeType {
 		const returnData: INodeExecutionData[] = [];
 
 		const credentials = await this.getCredentials('openApiCredentialsApi');
-		const specUrl = credentials.specUrl as string;
+		const specUrl = getSpecUrl(getSpecSource(credentials));
 		const baseUrlOverride = credentials.baseUrlOverride as string | undefined;
 
-		const specContent = await fetchSpec(this, specUrl);
-		const spec = await parseOpenApiSpec(specContent);
-		const operations = extractOperations(spec);
+		const { spec, operationsById } = await loadSpec(this);
 
-		const operationId = this.getNodeParameter('operation', 0) as string;
-		const operation = operations.find((op) => op.operationId === operationId);
+		const operationId = this.getNodeParameter('operation', 0, '', {
+			extractValue: true,
+		}) as string;
+		const operation = operationsById.get(operationId);
 
 		if (!operation) {
 			throw new NodeOperationError(
@@ -354,49 +984,507 @@ export class OpenApi implements INodeType {
 			);
 		}
 
-		const baseUrl = baseUrlOverride || getBaseUrl(spec);
+		const servers = getServers(spec, operation);
+		const expectBinary = expectsBinaryResponse(operation);
+		const oauth2 = getOAuth2Config(this, spec, operation, credentials, specUrl);
 
 		for (let i = 0; i < items.length; i++) {
-			const pathParams = extractResourceMapperValues(this, 'pathParameters', i);
-			const queryParams = extractResourceMapperValues(this, 'queryParameters', i);
+			try {
+				const baseUrl = baseUrlOverride || getBaseUrl(this, servers, specUrl, i);
+				const params: ParameterValues = {
+					path: extractResourceMapperValues(this, 'pathParameters', i),
+					query: extractResourceMapperValues(this, 'queryParameters', i),
+					header: extractResourceMapperValues(this, 'headerParameters', i),
+					cookie: extractResourceMapperValues(this, 'cookieParameters', i),
+				};
 
-			const bodyData = extractBodyData(this, i, operation.requestBody, items[i]);
+				let bodyData = await extractBodyData(this, i, operation.requestBody, items[i]);
 
-			const requestOptions = buildRequestOptions(
-				operation,
-				baseUrl,
-				{ ...pathParams, ...queryParams },
-				bodyData,
-				credentials as Record<string, unknown>,
-			);
+				if (this.getNodeParameter('validateRequest', i, true)) {
+					const errors = validateRequest(operation, params, bodyData);
+					if (errors.length > 0) {
+						throw new NodeOperationError(this.getNode(), errors[0], {
+							itemIndex: i,
+							description: errors.join('\n'),
+						});
+					}
+				}
+
+				let bodySent = false;
+				const build = async (accessToken?: string, overrides: IDataObject = {}) => {
+					// A stream can only be sent once, so retries and further pages open a new one.
+					if (bodySent && bodyData.data instanceof Readable && bodyData.binaryPropertyName) {
+						bodyData = {
+							...bodyData,
+							data: await getBinaryBody(this, i, bodyData.binaryPropertyName),
+						};
+					}
+					bodySent = true;
+					const query = { ...params.query, ...overrides };
+					return buildRequestOptions(operation, baseUrl, { ...params, query }, bodyData, {
+						...(credentials as Credentials),
+						accessToken,
+					});
+				};
+
+				const validationMode = this.getNodeParameter('validateResponse', i, 'off') as string;
+				const neverError = this.getNodeParameter('neverError', i, false) as boolean;
+				const retry = getRetryOptions(this, operation, i);
+				const flagged = new Map<unknown, SchemaViolation[]>();
+				const send = async (page: PageRequest) => {
+					const response = await fetchPage(this, operation, oauth2, build, page, {
+						neverError,
+						expectBinary,
+						retry,
+					});
+					if (validationMode !== 'off') {
+						const violations = checkResponse(this, operation, validationMode, response, i);
+						if (violations.length > 0) flagged.set(response.body, violations);
+					}
+					return response;
+				};
 
-			const response = await this.helpers.httpRequest(requestOptions);
-			returnData.push({ json: response as IDataObject });
+				if (operation.method === 'head' || !this.getNodeParameter('returnAll', i, false)) {
+					const response = await send({ params: {} });
+					const fullResponse = this.getNodeParameter('fullResponse', i, false) as boolean;
+					if (operation.method === 'head') {
+						const json = {
+							statusCode: response.statusCode,
+							headers: response.headers as IDataObject,
+						};
+						const violations = flagged.get(response.body);
+						returnData.push({ json: violations ? withViolations(json, violations) : json });
+						continue;
+					}
+					if (response.file) {
+						const { data, mimeType, fileName } = response.file;
+						const propertyName = this.getNodeParameter(
+							'outputBinaryPropertyName',
+							i,
+							'data',
+						) as string;
+						returnData.push({
+							json: fullResponse
+								? { statusCode: response.statusCode, headers: response.headers as IDataObject }
+								: {},
+							binary: {
+								[propertyName]: await this.helpers.prepareBinaryData(data, fileName, mimeType),
+							},
+						});
+						continue;
+					}
+					const json =
+						fullResponse || !isSuccess(response.statusCode)
+							? toFullResponse(response)
+							: (response.body as IDataObject);
+					const violations = flagged.get(response.body);
+					returnData.push({ json: violations ? withViolations(toJson(json), violations) : json });
+					continue;
+				}
+
+				const paginationOptions = this.getNodeParameter('pagination', i, {}) as PaginationOptions;
+				const flaggedRecords = new Map<unknown, SchemaViolation[]>();
+				let errorResponse: FetchedPage | undefined;
+				const records = await paginate(
+					operation,
+					(params.query ?? {}) as IDataObject,
+					paginationOptions,
+					async (page) => {
+						const response = await send(page);
+						// With Never Error on, a failed page ends pagination and is output as is.
+						if (!isSuccess(response.statusCode)) {
+							errorResponse = response;
+							return { ...response, body: undefined };
+						}
+						const violations = flagged.get(response.body);
+						if (violations) {
+							for (const record of extractRecords(response.body, paginationOptions.recordsPath)) {
+								flaggedRecords.set(record, violations);
+							}
+						}
+						return response;
+					},
+				);
+				for (const record of records) {
+					const violations = flaggedRecords.get(record);
+					returnData.push({
+						json: violations ? withViolations(toJson(record), violations) : toJson(record),
+						pairedItem: { item: i },
+					});
+				}
+				if (errorResponse) {
+					const violations = flagged.get(errorResponse.body);
+					const json = toFullResponse(errorResponse);
+					returnData.push({
+						json: violations ? withViolations(json, violations) : json,
+						pairedItem: { item: i },
+					});
+				}
+			} catch (error) {
+				const nodeError = toNodeError(this, operation, error, i);
+				if (this.continueOnFail()) {
+					returnData.push({ json: toErrorJson(nodeError), pairedItem: { item: i } });
+					continue;
+				}
+				throw nodeError;
+			}
 		}
 
 		return [returnData];
 	}
 }
 
-async function fetchSpec(context: FetchContext, url: string): Promise<string> {
+function getOAuth2Config(
+	context: IExecuteFunctions,
+	spec: OpenApiDocument,
+	operation: ParsedOperation,
+	credentials: Credentials,
+	specUrl: string | undefined,
+): OAuth2Config | undefined {
+	if (!isOAuth2(credentials) || operation.security?.length === 0) {
+		return undefined;
+	}
+	try {
+		return resolveOAuth2Config(spec, operation, credentials, specUrl);
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error);
+	}
+}
+
+type FetchedPage = PageResponse & {
+	readonly statusCode: number;
+	readonly file?: { data: Buffer; mimeType?: string; fileName?: string };
+};
+
+async function sendRequest(
+	context: IExecuteFunctions,
+	oauth2: OAuth2Config | undefined,
+	build: (accessToken?: string) => Promise<IHttpRequestOptions>,
+): Promise<IN8nHttpFullResponse> {
+	if (!oauth2) {
+		return (await context.helpers.httpRequest(await build())) as IN8nHttpFullResponse;
+	}
+
+	const requestToken: TokenRequester = async (url, form, headers) =>
+		await context.helpers.httpRequest({
+			method: 'POST',
+			url,
+			headers: {
+				Accept: 'application/json',
+				'Content-Type': 'application/x-www-form-urlencoded',
+				...headers,
+			},
+			body: new URLSearchParams(form).toString(),
+		});
+
+	const accessToken = await getAccessToken(oauth2, requestToken);
+	try {
+		const response = (await context.helpers.httpRequest(
+			await build(accessToken),
+		)) as IN8nHttpFullResponse;
+		// Requests that ignore HTTP status errors report a 401 as a response.
+		if (response.statusCode !== 401) {
+			return response;
+		}
+	} catch (error) {
+		if (getHttpStatusCode(error) !== 401) {
+			throw error;
+		}
+	}
+	invalidateAccessToken(oauth2);
+	const refreshedToken = await getAccessToken(oauth2, requestToken);
+	return (await context.helpers.httpRequest(await build(refreshedToken))) as IN8nHttpFullResponse;
+}
+
+async function fetchPage(
+	context: IExecuteFunctions,
+	operation: ParsedOperation,
+	oauth2: OAuth2Config | undefined,
+	build: (accessToken?: string, overrides?: IDataObject) => Promise<IHttpRequestOptions>,
+	page: PageRequest,
+	{
+		neverError,
+		expectBinary,
+		retry,
+	}: { neverError: boolean; expectBinary: boolean; retry: RetryOptions | undefined },
+): Promise<FetchedPage> {
+	let url = '';
+	const request = async () =>
+		await sendRequest(context, oauth2, async (accessToken) => {
+			const options = await build(accessToken, 'params' in page ? page.params : {});
+			if ('url' in page) {
+				options.url = page.url;
+			}
+			url = options.url;
+			return {
+				...options,
+				encoding: 'arraybuffer',
+				returnFullResponse: true,
+				ignoreHttpStatusErrors: neverError,
+			};
+		});
+	const response = retry
+		? await withRetry(request, retry, (outcome) =>
+				'result' in outcome
+					? { statusCode: outcome.result.statusCode, headers: outcome.result.headers }
+					: getRetryResponse(outcome.error),
+			)
+		: await request();
+
+	const { headers, statusCode } = response;
+	// HEAD responses carry the headers a GET would, but never a body.
+	if (operation.method === 'head') {
+		return { url, body: undefined, headers, statusCode };
+	}
+	const contentType = typeof headers['content-type'] === 'string' ? headers['content-type'] : '';
+	const decoded = decodeResponseBody(response.body, contentType || undefined, expectBinary);
+	if (!decoded.binary) {
+		const body =
+			getBodyFormat(contentType) === 'xml' && typeof decoded.body === 'string'
+				? parseXmlBody(operation, statusCode, contentType, decoded.body)
+				: decoded.body;
+		return { url, body, headers, statusCode };
+	}
+	return {
+		url,
+		body: undefined,
+		headers,
+		statusCode,
+		file: {
+			data: decoded.data,
+			mimeType: decoded.mimeType,
+			fileName: getFileName(headers['content-disposition'], url),
+		},
+	};
+}
+
+// XML is parsed into JSON using the documented schema's `xml` metadata.
+// Bodies that are not well-formed XML are returned as text.
+function parseXmlBody(
+	operation: ParsedOperation,
+	statusCode: number,
+	contentType: string,
+	text: string,
+): unknown {
+	if (text.trim() === '') return text;
+	try {
+		return xmlToJson(parseXml(text), findResponseSchema(operation, statusCode, contentType));
+	} catch {
+		return text;
+	}
+}
+
+// In "fail" mode a mismatch stops the execution; otherwise the violations are
+// returned so they can be attached to the output.
+function checkResponse(
+	context: IExecuteFunctions,
+	operation: ParsedOperation,
+	mode: string,
+	response: FetchedPage,
+	itemIndex: number,
+): SchemaViolation[] {
+	const contentType = response.headers['content-type'];
+	const violations = validateResponse(
+		operation,
+		response.statusCode,
+		typeof contentType === 'string' ? contentType : undefined,
+		response.body,
+	);
+	if (violations.length > 0 && mode === 'fail') {
+		const messages = violations.map((v) => formatViolation('Response body', v));
+		throw new NodeOperationError(
+			context.getNode(),
+			`Response does not match the documented schema: ${messages[0]}`,
+			{ itemIndex, description: messages.join('\n') },
+		);
+	}
+	return violations;
+}
+
+function withViolations(json: IDataObject, violations: readonly SchemaViolation[]): IDataObject {
+	return {
+		...json,
+		_responseValidation: {
+			valid: false,
+			errors: violations.map(({ path, keyword, message }) => ({ pointer: path, keyword, message })),
+		},
+	};
+}
+
+function toFullResponse(response: FetchedPage): IDataObject {
+	return {
+		statusCode: response.statusCode,
+		headers: response.headers as IDataObject,
+		body: response.body as IDataObject,
+	};
+}
+
+function isSuccess(statusCode: number): boolean {
+	return statusCode >= 200 && statusCode < 300;
+}
+
+function toJson(value: unknown): IDataObject {
+	return isObject(value) ? (value as IDataObject) : { value: value as IDataObject[string] };
+}
+
+function toNodeError(
+	context: IExecuteFunctions,
+	operation: ParsedOperation,
+	error: unknown,
+	itemIndex: number,
+): NodeOperationError | NodeApiError {
+	if (error instanceof NodeOperationError || error instanceof NodeApiError) {
+		return error;
+	}
+
+	const { response, code } = error as {
+		response?: { status?: number; headers?: Record<string, unknown>; data?: unknown };
+		code?: string;
+	};
+	if (response?.status) {
+		const contentType = response.headers?.['content-type'];
+		const parsed = parseErrorResponse(
+			operation,
+			response.status,
+			typeof contentType === 'string' ? contentType : undefined,
+			response.data,
+		);
+		return new NodeApiError(
+			context.getNode(),
+			isObject(parsed.body) ? (parsed.body as JsonObject) : { body: String(parsed.body ?? '') },
+			{
+				message: parsed.message,
+				description: parsed.description,
+				httpCode: String(response.status),
+				itemIndex,
+			},
+		);
+	}
+	if (code) {
+		return new NodeApiError(context.getNode(), error as JsonObject, { itemIndex });
+	}
+	return new NodeOperationError(context.getNode(), error as Error, { itemIndex });
+}
+
+function toErrorJson(error: NodeOperationError | NodeApiError): IDataObject {
+	const json: IDataObject = { error: error.message };
+	if (error.description) {
+		json.description = error.description;
+	}
+	if (error instanceof NodeApiError && error.httpCode) {
+		json.statusCode = Number(error.httpCode);
+	}
+	return json;
+}
+
+function getRetryOptions(
+	context: IExecuteFunctions,
+	operation: ParsedOperation,
+	itemIndex: number,
+): RetryOptions | undefined {
+	if (!context.getNodeParameter('retryEnabled', itemIndex, false)) return undefined;
+
+	const values = context.getNodeParameter('retry', itemIndex, {}) as {
+		maxAttempts?: number;
+		baseDelay?: number;
+		maxDelay?: number;
+		jitter?: number;
+		statusCodes?: string;
+		retryNonIdempotent?: boolean;
+	};
+	const options: RetryOptions = {
+		maxAttempts: values.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+		baseDelayMs: values.baseDelay ?? DEFAULT_RETRY_OPTIONS.baseDelayMs,
+		maxDelayMs: values.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelayMs,
+		jitter: values.jitter ?? DEFAULT_RETRY_OPTIONS.jitter,
+		retryableStatusCodes:
+			values.statusCodes !== undefined
+				? parseStatusCodes(values.statusCodes)
+				: DEFAULT_RETRY_OPTIONS.retryableStatusCodes,
+		retryNonIdempotent: values.retryNonIdempotent ?? DEFAULT_RETRY_OPTIONS.retryNonIdempotent,
+	};
+	return canRetry(operation, options) ? options : undefined;
+}
+
+function getRetryResponse(error: unknown): RetryResponse {
+	const { response, code } = error as {
+		response?: { headers?: Record<string, unknown> };
+		code?: string;
+	};
+	return { statusCode: getHttpStatusCode(error), headers: response?.headers, errorCode: code };
+}
+
+function getHttpStatusCode(error: unknown): number | undefined {
+	const { response, httpCode } = error as { response?: { status?: number }; httpCode?: string };
+	return response?.status ?? (httpCode ? Number(httpCode) : undefined);
+}
+
+async function fetchSpec(
+	context: FetchContext,
+	url: string,
+	validators: SpecValidators,
+): Promise<SpecFetchResult> {
+	const headers: IDataObject = {};
+	if (validators.etag) {
+		headers['If-None-Match'] = validators.etag;
+	}
+	if (validators.lastModified) {
+		headers['If-Modified-Since'] = validators.lastModified;
+	}
 	const options: IHttpRequestOptions = {
 		method: 'GET',
 		url,
-		returnFullResponse: false,
+		headers,
+		returnFullResponse: true,
+		ignoreHttpStatusErrors: true,
 	};
-	const response = await context.helpers.httpRequest(options);
-	if (typeof response === 'string') {
-		return response;
+	const response = (await context.helpers.httpRequest(options)) as IN8nHttpFullResponse;
+	if (response.statusCode === 304) {
+		return { notModified: true };
+	}
+	if (response.statusCode >= 400) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Failed to fetch OpenAPI spec from ${url}: HTTP ${response.statusCode}`,
+		);
 	}
-	return JSON.stringify(response);
+	return {
+		notModified: false,
+		content: typeof response.body === 'string' ? response.body : JSON.stringify(response.body),
+		etag: response.headers.etag as string | undefined,
+		lastModified: response.headers['last-modified'] as string | undefined,
+	};
 }
 
-function getBaseUrl(spec: OpenApiDocument): string {
-	const servers = spec.servers;
-	if (servers && servers.length > 0) {
-		return servers[0].url;
+async function loadSpec(context: FetchContext): Promise<LoadedSpec> {
+	const credentials = await context.getCredentials('openApiCredentialsApi');
+	const source = getSpecSource(credentials);
+	const ttlSeconds = (credentials.specCacheTtl as number | undefined) ?? 300;
+
+	const fetcher = createSpecFetcher(
+		source,
+		async (url, validators) => await fetchSpec(context, url, validators),
+	);
+	return await loadCachedSpec(getSpecCacheKey(source), ttlSeconds * 1000, fetcher);
+}
+
+function getBaseUrl(
+	context: IExecuteFunctions,
+	servers: readonly OpenApiServer[],
+	specUrl: string | undefined,
+	itemIndex: number,
+): string {
+	const serverUrl = context.getNodeParameter('server', itemIndex, '') as string;
+	const server = selectServer(servers, serverUrl);
+	if (!server) {
+		return '';
+	}
+	const variables = extractResourceMapperValues(context, 'serverVariables', itemIndex);
+	try {
+		return resolveServerUrl(server, variables, specUrl);
+	} catch (error) {
+		throw new NodeOperationError(context.getNode(), error as Error, { itemIndex });
 	}
-	return '';
 }
 
 function extractResourceMapperValues(
@@ -411,74 +1499,186 @@ function extractResourceMapperValues(
 	return value ?? {};
 }
 
-function extractBodyData(
+async function extractBodyData(
 	context: IExecuteFunctions,
 	itemIndex: number,
 	requestBody: ParsedRequestBody | undefined,
 	item: INodeExecutionData,
-): BodyData {
+): Promise<BodyData> {
 	if (!requestBody) {
 		return { contentType: undefined, data: {} };
 	}
 
-	const contentType = requestBody.contentType;
+	const { contentType, schema } = getRequestBodyContent(
+		requestBody,
+		context.getNodeParameter('contentType', itemIndex, '') as string,
+	);
 
-	switch (contentType) {
-		case 'application/json': {
+	switch (getBodyFormat(contentType)) {
+		case 'json': {
 			const jsonInputMode = context.getNodeParameter(
 				'jsonInputMode',
 				itemIndex,
 				'fields',
 			) as string;
 			if (jsonInputMode === 'fields') {
-				const data = extractResourceMapperValues(context, 'jsonBodyFields', itemIndex);
+				const data = unflattenFields({
+					...getDiscriminatorField(context, itemIndex, schema),
+					...extractResourceMapperValues(context, 'jsonBodyFields', itemIndex),
+				});
 				return { contentType, data };
 			}
 			const jsonStr = context.getNodeParameter('requestBodyJson', itemIndex, '{}') as string;
 			const data = jsonStr && jsonStr.trim() !== '' ? JSON.parse(jsonStr) : {};
 			return { contentType, data };
 		}
-		case 'application/xml': {
+		case 'xml': {
+			const xmlInputMode = context.getNodeParameter('xmlInputMode', itemIndex, 'raw') as string;
+			if (xmlInputMode === 'fields') {
+				const variantName = context.getNodeParameter('bodyVariant', itemIndex, '') as string;
+				const data = unflattenFields({
+					...getDiscriminatorField(context, itemIndex, schema),
+					...extractResourceMapperValues(context, 'xmlBodyFields', itemIndex),
+				});
+				return {
+					contentType,
+					data: buildXml(resolveSchemaVariant(schema, variantName).schema, data),
+				};
+			}
 			const xmlStr = context.getNodeParameter('requestBodyXml', itemIndex, '') as string;
 			return { contentType, data: xmlStr };
 		}
-		case 'application/x-www-form-urlencoded':
-		case 'multipart/form-data': {
-			const formData = extractResourceMapperValues(context, 'formData', itemIndex);
+		case 'text': {
+			const text = context.getNodeParameter('requestBodyText', itemIndex, '') as string;
+			return { contentType, data: text };
+		}
+		case 'form':
+		case 'multipart': {
+			const formData = {
+				...getDiscriminatorField(context, itemIndex, schema),
+				...extractResourceMapperValues(context, 'formData', itemIndex),
+			};
+			if (getBodyFormat(contentType) === 'form') {
+				return { contentType, data: formData };
+			}
 			const binaryPropertyName = context.getNodeParameter(
 				'binaryPropertyName',
 				itemIndex,
 				'data',
 			) as string;
+			const variantName = context.getNodeParameter('bodyVariant', itemIndex, '') as string;
+			const { fields, files } = await extractMultipartFiles(
+				context,
+				itemIndex,
+				resolveSchemaVariant(schema, variantName).schema,
+				formData,
+				item.binary?.[binaryPropertyName] ? binaryPropertyName : undefined,
+			);
+			return { contentType, data: fields, files };
+		}
+		case 'binary': {
+			const binaryPropertyName = context.getNodeParameter(
+				'binaryPropertyName',
+				itemIndex,
+				'data',
+			) as string;
+			const { mimeType } = context.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+			// Wildcard media types such as `image/*` take the file's own type.
+			const mediaType =
+				contentType.includes('*') && getBodyFormat(mimeType) === 'binary' ? mimeType : contentType;
+			return {
+				contentType: mediaType,
+				data: await getBinaryBody(context, itemIndex, binaryPropertyName),
+				binaryPropertyName,
+			};
+		}
+	}
+}
 
-			if (contentType === 'multipart/form-data' && item.binary?.[binaryPropertyName]) {
-				return {
-					contentType,
-					data: formData,
-					binaryPropertyName,
-				};
-			}
-			return { contentType, data: formData };
+// Each file field holds the names of the input binary properties to upload,
+// separated by commas. The first file field left empty takes the file from the
+// Binary Property option.
+async function extractMultipartFiles(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	schema: OpenApiSchema,
+	formData: Record<string, unknown>,
+	fallbackProperty: string | undefined,
+): Promise<{ fields: Record<string, unknown>; files: Record<string, MultipartFile[]> }> {
+	const fields = { ...formData };
+	const files: Record<string, MultipartFile[]> = {};
+	let fallback = fallbackProperty;
+
+	for (const [name, property] of Object.entries(schema.properties ?? {})) {
+		if (!isFileSchema(mergeAllOf(property as OpenApiSchema))) continue;
+		const value = fields[name];
+		delete fields[name];
+
+		let propertyNames =
+			typeof value === 'string'
+				? value
+						.split(',')
+						.map((propertyName) => propertyName.trim())
+						.filter(Boolean)
+				: [];
+		if (propertyNames.length === 0 && fallback) {
+			propertyNames = [fallback];
+			fallback = undefined;
 		}
-		default:
-			return { contentType: undefined, data: {} };
+		if (propertyNames.length === 0) continue;
+
+		files[name] = await Promise.all(
+			propertyNames.map(async (propertyName) => {
+				const { fileName, mimeType } = context.helpers.assertBinaryData(itemIndex, propertyName);
+				const data = await context.helpers.getBinaryDataBuffer(itemIndex, propertyName);
+				return { data, fileName, mimeType };
+			}),
+		);
 	}
+
+	return { fields, files };
+}
+
+// Binary data kept outside the workflow (filesystem or S3 mode) is streamed
+// instead of loaded into memory.
+async function getBinaryBody(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	propertyName: string,
+): Promise<Buffer | Readable> {
+	const binaryData = context.helpers.assertBinaryData(itemIndex, propertyName);
+	if (binaryData.id) {
+		return await context.helpers.getBinaryStream(binaryData.id);
+	}
+	return Buffer.from(binaryData.data, BINARY_ENCODING);
+}
+
+function getDiscriminatorField(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	schema: OpenApiSchema,
+): Record<string, string> {
+	const variantName = context.getNodeParameter('bodyVariant', itemIndex, '') as string;
+	const { discriminator } = resolveSchemaVariant(schema, variantName);
+	return discriminator
+		? { [escapePathSegment(discriminator.propertyName)]: discriminator.value }
+		: {};
 }
 
 function schemaToResourceMapperFields(
 	schema: OpenApiSchema,
-	contentType?: string,
+	format?: BodyFormat,
 ): ResourceMapperField[] {
-	if (schema.type !== 'object' || !schema.properties) {
+	if (getSchemaType(schema) !== 'object' || !schema.properties) {
 		return [];
 	}
 
 	const requiredFields = schema.required ?? [];
 
 	return Object.entries(schema.properties).map(([name, propSchema]) => {
-		const prop = propSchema as OpenApiSchema;
+		const prop = mergeAllOf(propSchema as OpenApiSchema);
 		const required = requiredFields.includes(name);
-		const isBinaryFile = contentType === 'multipart/form-data' && isBinarySchema(prop);
+		const isBinaryFile = format === 'multipart' && isFileSchema(prop);
 		return {
 			id: name,
 			displayName: toDisplayName(name) + (isBinaryFile ? ' (Binary)' : ''),
@@ -492,6 +1692,26 @@ function schemaToResourceMapperFields(
 	});
 }
 
+function bodyFieldsToResourceMapperFields(schema: OpenApiSchema): ResourceMapperField[] {
+	return flattenSchema(schema).map((field) => ({
+		id: field.path,
+		displayName: field.segments.map(toDisplayName).join(' > '),
+		required: field.required,
+		defaultMatch: false,
+		canBeUsedToMatch: false,
+		display: true,
+		type: field.schema.type === 'array' ? 'array' : mapSchemaTypeToFieldType(field.schema),
+		options: field.schema.enum?.map((value) => ({ name: String(value), value })),
+	}));
+}
+
+function isFileSchema(schema: OpenApiSchema): boolean {
+	if (schema.type === 'array') {
+		return isBinarySchema(((schema as { items?: OpenApiSchema }).items ?? {}) as OpenApiSchema);
+	}
+	return isBinarySchema(schema);
+}
+
 function isBinarySchema(schema: OpenApiSchema): boolean {
 	if (schema.format === 'binary' || schema.format === 'byte') {
 		return true;
@@ -522,23 +1742,49 @@ function mapSchemaTypeToFieldType(schema: OpenApiSchema): ResourceMapperField['t
 	}
 }
 
-function toDisplayName(name: string): string {
-	return name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
+async function getBodyFields(
+	context: ILoadOptionsFunctions,
+	format: 'json' | 'xml',
+): Promise<ResourceMapperFields> {
+	const operation = await getSelectedOperation(context);
+	if (!operation) {
+		return { fields: [], emptyFieldsNotice: 'Select an operation first' };
+	}
+	if (!operation.requestBody) {
+		return { fields: [], emptyFieldsNotice: 'This operation has no request body' };
+	}
+	const content = getSelectedContent(context, operation.requestBody);
+	if (getBodyFormat(content.contentType) !== format) {
+		return {
+			fields: [],
+			emptyFieldsNotice: `This content type does not use a ${format.toUpperCase()} body`,
+		};
+	}
+	const { schema } = resolveSchemaVariant(
+		content.schema,
+		context.getNodeParameter('bodyVariant', '') as string,
+	);
+	return { fields: bodyFieldsToResourceMapperFields(schema) };
+}
+
+function getSelectedContent(
+	context: ILoadOptionsFunctions,
+	requestBody: ParsedRequestBody,
+): RequestBodyContent {
+	return getRequestBodyContent(requestBody, context.getNodeParameter('contentType', '') as string);
 }
 
 async function getSelectedOperation(context: ILoadOptionsFunctions) {
-	const credentials = await context.getCredentials('openApiCredentialsApi');
-	const specUrl = credentials.specUrl as string;
-	const operationId = context.getNodeParameter('operation', 0) as string;
+	const operationId = context.getNodeParameter('operation', '', {
+		extractValue: true,
+	}) as string;
 
 	if (!operationId) {
 		return undefined;
 	}
 
-	const specContent = await fetchSpec(context, specUrl);
-	const spec = await parseOpenApiSpec(specContent);
-	const operations = extractOperations(spec);
-	return operations.find((op) => op.operationId === operationId);
+	const { operationsById } = await loadSpec(context);
+	return operationsById.get(operationId);
 }
 
 function parametersToResourceMapperFields(
@@ -0,0 +1,153 @@
+import { Buffer } from 'node:buffer';
+import type { IDataObject } from 'n8n-workflow';
+import type { OpenApiSecurityScheme, ParsedOperation, ParsedSecurityRequirement } from './types';
+
+export type SchemeCredentials = {
+	readonly schemeName?: string;
+	readonly value?: string;
+	readonly username?: string;
+	readonly password?: string;
+};
+
+export type Credentials = {
+	readonly authType?: string;
+	readonly apiKey?: string;
+	readonly apiKeyLocation?: string;
+	readonly apiKeyName?: string;
+	readonly bearerToken?: string;
+	readonly username?: string;
+	readonly password?: string;
+	readonly securitySchemeCredentials?: {
+		readonly schemes?: readonly SchemeCredentials[];
+	};
+	readonly clientId?: string;
+	readonly clientSecret?: string;
+	readonly clientAuthentication?: string;
+	readonly oauth2TokenUrl?: string;
+	readonly oauth2Scopes?: string;
+	// Set at execution time from the OAuth2 token endpoint.
+	readonly accessToken?: string;
+};
+
+export type Authentication = {
+	headers: Record<string, string>;
+	qs: IDataObject;
+	cookies: string[];
+};
+
+export function buildAuthentication(
+	operation: ParsedOperation,
+	credentials?: Credentials,
+): Authentication {
+	const auth: Authentication = { headers: {}, qs: {}, cookies: [] };
+	if (!credentials) return auth;
+
+	// `security: []` marks the operation as public.
+	if (operation.security && operation.security.length === 0) return auth;
+
+	if (credentials.authType === 'securitySchemes') {
+		applySecurityRequirements(auth, operation.security ?? [], credentials);
+	} else {
+		applyCredentials(auth, credentials);
+	}
+
+	return auth;
+}
+
+function applyCredentials(auth: Authentication, credentials: Credentials): void {
+	switch (credentials.authType) {
+		case 'apiKey': {
+			const location = credentials.apiKeyLocation;
+			const defaultName = location === 'header' ? 'X-API-Key' : 'api_key';
+			addApiKey(auth, location, credentials.apiKeyName ?? defaultName, credentials.apiKey ?? '');
+			break;
+		}
+		case 'bearer':
+			auth.headers.Authorization = `Bearer ${credentials.bearerToken}`;
+			break;
+		case 'basic':
+			auth.headers.Authorization = basicAuthorization(credentials.username, credentials.password);
+			break;
+		case 'oauth2ClientCredentials':
+			if (credentials.accessToken) {
+				auth.headers.Authorization = `Bearer ${credentials.accessToken}`;
+			}
+			break;
+	}
+}
+
+function applySecurityRequirements(
+	auth: Authentication,
+	requirements: readonly ParsedSecurityRequirement[],
+	credentials: Credentials,
+): void {
+	const provided = new Map<string, SchemeCredentials>();
+	for (const schemeCredentials of credentials.securitySchemeCredentials?.schemes ?? []) {
+		if (schemeCredentials.schemeName) {
+			provided.set(schemeCredentials.schemeName, schemeCredentials);
+		}
+	}
+
+	// An empty requirement makes authentication optional, so it only wins when
+	// no other requirement can be met with the configured credentials.
+	const requirement =
+		requirements.find((r) => r.length > 0 && r.every((s) => s.scheme && provided.has(s.name))) ??
+		requirements.find((r) => r.length === 0) ??
+		requirements[0] ??
+		[];
+
+	for (const { name, scheme } of requirement) {
+		const schemeCredentials = provided.get(name);
+		if (scheme && schemeCredentials) {
+			applyScheme(auth, scheme, schemeCredentials);
+		}
+	}
+}
+
+function applyScheme(
+	auth: Authentication,
+	scheme: OpenApiSecurityScheme,
+	credentials: SchemeCredentials,
+): void {
+	switch (scheme.type) {
+		case 'apiKey':
+			addApiKey(auth, scheme.in, scheme.name, credentials.value ?? '');
+			break;
+		case 'http':
+			if (scheme.scheme.toLowerCase() === 'basic') {
+				auth.headers.Authorization = basicAuthorization(credentials.username, credentials.password);
+			} else {
+				const prefix = scheme.scheme.toLowerCase() === 'bearer' ? 'Bearer' : scheme.scheme;
+				auth.headers.Authorization = `${prefix} ${credentials.value ?? ''}`;
+			}
+			break;
+		case 'oauth2':
+		case 'openIdConnect':
+			auth.headers.Authorization = `Bearer ${credentials.value ?? ''}`;
+			break;
+	}
+}
+
+function addApiKey(
+	auth: Authentication,
+	location: string | undefined,
+	name: string,
+	value: string,
+): void {
+	switch (location) {
+		case 'query':
+			auth.qs[name] = value;
+			break;
+		case 'cookie':
+			auth.cookies.push(`${name}=${encodeURIComponent(value)}`);
+			break;
+		case 'header':
+		default:
+			auth.headers[name] = value;
+			break;
+	}
+}
+
+function basicAuthorization(username: string | undefined, password: string | undefined): string {
+	return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
@@ -0,0 +1,195 @@
+import { mergeAllOf } from './composeSchema';
+import type { OpenApiSchema } from './types';
+import { getSchemaType, parseArray } from './utils';
+
+/**
+ * A leaf of a request body schema. `path` uses dots for object properties
+ * and `[]` for arrays of objects, e.g. `address.city` or `items[].sku`.
+ * Dots, brackets and backslashes in property names are escaped with a
+ * backslash, e.g. `@odata\.type`.
+ */
+export type BodyField = {
+	readonly path: string;
+	readonly segments: readonly string[];
+	readonly schema: OpenApiSchema;
+	readonly required: boolean;
+};
+
+const MAX_DEPTH = 5;
+
+export function flattenSchema(schema: OpenApiSchema): BodyField[] {
+	const merged = mergeAllOf(schema);
+	if (getSchemaType(merged) !== 'object' || !merged.properties) {
+		return [];
+	}
+	return flattenProperties(merged, [], [], true, new Set([schema]));
+}
+
+/** Escapes a property name for use as one segment of a field path. */
+export function escapePathSegment(name: string): string {
+	return name.replace(/[\\.[\]]/g, '\\$&');
+}
+
+function flattenProperties(
+	schema: OpenApiSchema,
+	segments: readonly string[],
+	keys: readonly string[],
+	parentRequired: boolean,
+	ancestors: ReadonlySet<OpenApiSchema>,
+): BodyField[] {
+	const required = schema.required ?? [];
+	return Object.entries(schema.properties ?? {}).flatMap(([name, propSchema]) =>
+		flattenProperty(
+			propSchema as OpenApiSchema,
+			[...segments, name],
+			[...keys, escapePathSegment(name)],
+			parentRequired && required.includes(name),
+			ancestors,
+		),
+	);
+}
+
+// Schemas that recurse into themselves, or nest too deeply, stay a single
+// JSON field instead of being expanded further.
+function flattenProperty(
+	schema: OpenApiSchema,
+	segments: readonly string[],
+	keys: readonly string[],
+	required: boolean,
+	ancestors: ReadonlySet<OpenApiSchema>,
+): BodyField[] {
+	const merged = mergeAllOf(schema);
+	const leaf = (): BodyField[] => [{ path: keys.join('.'), segments, schema: merged, required }];
+	if (ancestors.has(schema) || segments.length > MAX_DEPTH) return leaf();
+
+	const nested = new Set(ancestors).add(schema);
+	const type = getSchemaType(merged);
+
+	if (type === 'object' && hasProperties(merged)) {
+		return flattenProperties(merged, segments, keys, required, nested);
+	}
+
+	if (type === 'array') {
+		const items = (merged as { items?: OpenApiSchema }).items;
+		const mergedItems = items ? mergeAllOf(items) : undefined;
+		if (
+			items &&
+			mergedItems &&
+			getSchemaType(mergedItems) === 'object' &&
+			hasProperties(mergedItems) &&
+			!ancestors.has(items)
+		) {
+			const arraySegments = [...segments.slice(0, -1), `${segments[segments.length - 1]}[]`];
+			const arrayKeys = [...keys.slice(0, -1), `${keys[keys.length - 1]}[]`];
+			return flattenProperties(
+				mergedItems,
+				arraySegments,
+				arrayKeys,
+				required,
+				new Set(nested).add(items),
+			);
+		}
+	}
+
+	return leaf();
+}
+
+/**
+ * Rebuilds nested JSON from flat field values. Fields below an `[]` segment
+ * may hold an array; items are assembled index by index, and single values
+ * are repeated in every item.
+ */
+export function unflattenFields(values: Record<string, unknown>): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	const arrays = new Map<string, Record<string, unknown>>();
+
+	for (const [key, value] of Object.entries(values)) {
+		if (value === undefined) continue;
+		const marker = findArrayMarker(key);
+		if (marker === -1) {
+			setPath(result, parsePath(key), value);
+			continue;
+		}
+		const arrayPath = key.slice(0, marker);
+		const group = arrays.get(arrayPath) ?? {};
+		group[key.slice(marker + 3)] = value;
+		arrays.set(arrayPath, group);
+	}
+
+	for (const [arrayPath, group] of arrays) {
+		const columns = Object.entries(group).map(
+			([key, value]) => [key, parseArray(value) ?? value] as const,
+		);
+		const length = Math.max(
+			1,
+			...columns.map(([, value]) => (Array.isArray(value) ? value.length : 1)),
+		);
+		const items = Array.from({ length }, (_, index) =>
+			unflattenFields(
+				Object.fromEntries(
+					columns.map(([key, value]) => [key, Array.isArray(value) ? value[index] : value]),
+				),
+			),
+		);
+		setPath(result, parsePath(arrayPath), items);
+	}
+
+	return result;
+}
+
+// The first unescaped `[].`, which separates an array from its item fields.
+function findArrayMarker(path: string): number {
+	for (let index = 0; index < path.length; index++) {
+		if (path[index] === '\\') index++;
+		else if (path.startsWith('[].', index)) return index;
+	}
+	return -1;
+}
+
+function parsePath(path: string): (string | number)[] {
+	const segments: (string | number)[] = [];
+	let name = '';
+	let named = false;
+	for (let index = 0; index < path.length; index++) {
+		const char = path[index];
+		const indexMatch = char === '[' ? /^\[(\d+)\]/.exec(path.slice(index)) : null;
+		if (char === '\\' && index + 1 < path.length) {
+			name += path[++index];
+			named = true;
+		} else if (char === '.') {
+			if (named) segments.push(name);
+			name = '';
+			named = false;
+		} else if (indexMatch) {
+			if (named) segments.push(name);
+			segments.push(Number(indexMatch[1]));
+			name = '';
+			named = false;
+			index += indexMatch[0].length - 1;
+		} else {
+			name += char;
+			named = true;
+		}
+	}
+	if (named) segments.push(name);
+	return segments;
+}
+
+function setPath(target: Record<string, unknown>, segments: (string | number)[], value: unknown) {
+	let current: Record<string | number, unknown> = target;
+	segments.forEach((segment, index) => {
+		if (index === segments.length - 1) {
+			current[segment] = value;
+			return;
+		}
+		const next = current[segment];
+		if (typeof next !== 'object' || next === null) {
+			current[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+		}
+		current = current[segment] as Record<string | number, unknown>;
+	});
+}
+
+function hasProperties(schema: OpenApiSchema): boolean {
+	return Object.keys(schema.properties ?? {}).length > 0;
+}
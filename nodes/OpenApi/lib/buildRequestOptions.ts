@@ -1,35 +1,51 @@
-import { Buffer } from 'node:buffer';
-import type { IDataObject, IHttpRequestMethods, IHttpRequestOptions } from 'n8n-workflow';
-import type { ParsedOperation } from './types';
-
-type Credentials = {
-	readonly authType?: string;
-	readonly apiKey?: string;
-	readonly apiKeyLocation?: string;
-	readonly apiKeyName?: string;
-	readonly bearerToken?: string;
-	readonly username?: string;
-	readonly password?: string;
-};
-
+import type { Buffer } from 'node:buffer';
+import type { Readable } from 'node:stream';
+import type { IHttpRequestMethods, IHttpRequestOptions } from 'n8n-workflow';
+import { buildAuthentication, type Credentials } from './authentication';
+import { buildMultipartBody, type MultipartFile } from './multipart';
+import { getBodyFormat, getRequestBodyContent, isBinaryBody } from './requestBody';
+import {
+	serializeHeaderParameter,
+	serializePathParameter,
+	serializeQueryParameter,
+} from './serializeParameter';
+import type { ParameterValues, ParsedOperation, ParsedParameter } from './types';
+import { isEmpty } from './utils';
+
+/**
+ * Raw binary uploads carry a buffer or stream as `data`. Multipart bodies
+ * carry their files separately, keyed by form field.
+ */
 export type BodyData = {
 	contentType: string | undefined;
-	data: Record<string, unknown> | string;
+	data: Record<string, unknown> | string | Buffer | Readable;
 	binaryPropertyName?: string;
+	files?: Record<string, readonly MultipartFile[]>;
 };
 
 export function buildRequestOptions(
 	operation: ParsedOperation,
 	baseUrl: string,
-	params: Record<string, unknown>,
+	params: ParameterValues,
 	bodyData: BodyData,
 	credentials?: Credentials,
 ): IHttpRequestOptions {
-	const { url, usedParams } = buildUrl(baseUrl, operation.path, params);
-	const qs = buildQueryString(params, usedParams, credentials);
-	const headers = buildHeaders(credentials, bodyData.contentType);
+	const url = buildUrl(operation, baseUrl, params);
+	const auth = buildAuthentication(operation, credentials);
+	const qs = auth.qs;
+	const headers = {
+		...buildParameterHeaders(operation, params.header ?? {}),
+		...buildHeaders(operation, bodyData.contentType),
+		...auth.headers,
+	};
+	const cookie = buildCookieHeader(operation, params.cookie ?? {}, auth.cookies);
+	if (cookie) {
+		headers.Cookie = cookie;
+	}
 
 	const options: IHttpRequestOptions = {
+		// IHttpRequestMethods lacks OPTIONS and TRACE, but httpRequest hands the
+		// method to axios unchanged, which sends any method name.
 		method: operation.method.toUpperCase() as IHttpRequestMethods,
 		url,
 		headers,
@@ -39,114 +55,167 @@ export function buildRequestOptions(
 		options.qs = qs;
 	}
 
-	applyBody(options, bodyData);
+	applyBody(options, operation, bodyData);
 
 	return options;
 }
 
-function applyBody(options: IHttpRequestOptions, bodyData: BodyData): void {
+function applyBody(
+	options: IHttpRequestOptions,
+	operation: ParsedOperation,
+	bodyData: BodyData,
+): void {
 	if (!bodyData.contentType) return;
 
 	const { contentType, data } = bodyData;
 
-	switch (contentType) {
-		case 'application/json':
-			if (typeof data === 'object' && Object.keys(data).length > 0) {
+	switch (getBodyFormat(contentType)) {
+		case 'json':
+			if (typeof data === 'object' && !isBinaryBody(data) && Object.keys(data).length > 0) {
 				options.body = data;
 				options.json = true;
 			}
 			break;
-		case 'application/xml':
+		case 'xml':
+		case 'text':
 			if (typeof data === 'string' && data.length > 0) {
 				options.body = data;
 			}
 			break;
-		case 'application/x-www-form-urlencoded':
+		case 'form':
 			if (typeof data === 'object' && Object.keys(data).length > 0) {
 				options.body = data;
 			}
 			break;
-		case 'multipart/form-data':
-			if (typeof data === 'object') {
+		case 'multipart': {
+			if (typeof data !== 'object' || isBinaryBody(data)) break;
+			const { schema, encoding } = operation.requestBody
+				? getRequestBodyContent(operation.requestBody, contentType)
+				: { schema: {}, encoding: undefined };
+			const multipart = buildMultipartBody(schema, data, bodyData.files ?? {}, encoding);
+			options.body = multipart.body;
+			options.json = false;
+			options.headers = { ...options.headers, 'Content-Type': multipart.contentType };
+			break;
+		}
+		case 'binary':
+			if (isBinaryBody(data)) {
 				options.body = data;
-				if (bodyData.binaryPropertyName) {
-					options.json = false;
-				}
+				options.json = false;
 			}
 			break;
 	}
 }
 
-function buildUrl(
-	baseUrl: string,
-	path: string,
-	params: Record<string, unknown>,
-): { url: string; usedParams: Set<string> } {
-	let url = `${baseUrl}${path}`;
-	const usedParams = new Set<string>();
+// Query values the operation does not declare are sent too, which is how
+// pagination passes its page parameters.
+function buildUrl(operation: ParsedOperation, baseUrl: string, params: ParameterValues): string {
+	let url = joinUrl(baseUrl, operation.path);
+	const pathParams = params.path ?? {};
 
 	const pathParamRegex = /\{([^}]+)\}/g;
 	let match;
-	while ((match = pathParamRegex.exec(path)) !== null) {
+	while ((match = pathParamRegex.exec(operation.path)) !== null) {
 		const paramName = match[1];
-		const value = params[paramName];
+		const value = pathParams[paramName];
 		if (value !== undefined) {
-			url = url.replace(`{${paramName}}`, encodeURIComponent(String(value)));
-			usedParams.add(paramName);
+			const param = findParameter(operation, paramName, 'path');
+			url = url.replace(`{${paramName}}`, serializePathParameter(param, value));
 		}
 	}
 
-	return { url, usedParams };
+	const query: string[] = [];
+	for (const [name, value] of Object.entries(params.query ?? {})) {
+		if (isEmpty(value)) continue;
+		query.push(...serializeQueryParameter(findParameter(operation, name, 'query'), value));
+	}
+	if (query.length > 0) {
+		url += `${url.includes('?') ? '&' : '?'}${query.join('&')}`;
+	}
+
+	return url;
 }
 
-function buildQueryString(
-	params: Record<string, unknown>,
-	usedParams: Set<string>,
-	credentials?: Credentials,
-): IDataObject {
-	const qs: IDataObject = {};
+function joinUrl(baseUrl: string, path: string): string {
+	if (!baseUrl) {
+		return path;
+	}
+	return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
 
-	for (const [name, value] of Object.entries(params)) {
-		if (!usedParams.has(name) && value !== undefined && value !== '') {
-			qs[name] = value;
-		}
+// OpenAPI says header parameters with these names are ignored; they are
+// controlled by the request body and authentication settings instead.
+const RESERVED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+function buildParameterHeaders(
+	operation: ParsedOperation,
+	params: Record<string, unknown>,
+): Record<string, string> {
+	const headers: Record<string, string> = {};
+
+	for (const param of operation.parameters) {
+		if (param.in !== 'header') continue;
+		if (RESERVED_HEADERS.includes(param.name.toLowerCase())) continue;
+		const value = params[param.name];
+		if (isEmpty(value)) continue;
+		headers[param.name] = serializeHeaderParameter(param, value);
 	}
 
-	if (credentials?.authType === 'apiKey' && credentials.apiKeyLocation === 'query') {
-		qs[credentials.apiKeyName ?? 'api_key'] = credentials.apiKey;
+	return headers;
+}
+
+function buildCookieHeader(
+	operation: ParsedOperation,
+	params: Record<string, unknown>,
+	authCookies: readonly string[],
+): string | undefined {
+	const cookies: string[] = [];
+
+	for (const param of operation.parameters) {
+		if (param.in !== 'cookie') continue;
+		const value = params[param.name];
+		if (isEmpty(value)) continue;
+		cookies.push(`${param.name}=${encodeURIComponent(String(value))}`);
 	}
 
-	return qs;
+	cookies.push(...authCookies);
+
+	return cookies.length > 0 ? cookies.join('; ') : undefined;
+}
+
+function findParameter(
+	operation: ParsedOperation,
+	name: string,
+	location: ParsedParameter['in'],
+): ParsedParameter {
+	return (
+		operation.parameters.find((p) => p.name === name && p.in === location) ?? {
+			name,
+			in: location,
+			required: false,
+			schema: { type: 'string' },
+			description: '',
+		}
+	);
 }
 
-function buildHeaders(credentials?: Credentials, contentType?: string): Record<string, string> {
+function buildHeaders(operation: ParsedOperation, contentType?: string): Record<string, string> {
 	const headers: Record<string, string> = {
-		Accept: 'application/json',
+		Accept: getAcceptHeader(operation),
 	};
 
 	if (contentType) {
 		headers['Content-Type'] = contentType;
 	}
 
-	if (!credentials) return headers;
-
-	switch (credentials.authType) {
-		case 'apiKey':
-			if (credentials.apiKeyLocation === 'header') {
-				headers[credentials.apiKeyName ?? 'X-API-Key'] = credentials.apiKey ?? '';
-			}
-			break;
-		case 'bearer':
-			headers.Authorization = `Bearer ${credentials.bearerToken}`;
-			break;
-		case 'basic': {
-			const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString(
-				'base64',
-			);
-			headers.Authorization = `Basic ${encoded}`;
-			break;
-		}
-	}
-
 	return headers;
 }
+
+// Servers that negotiate content answer with what was asked for, so ask for
+// the media types the operation documents for its successful responses.
+function getAcceptHeader(operation: ParsedOperation): string {
+	const mediaTypes = (operation.responses ?? []).flatMap((response) =>
+		/^2(\d\d|XX)$/i.test(response.statusCode) && response.contentType ? [response.contentType] : [],
+	);
+	return mediaTypes.length > 0 ? [...new Set(mediaTypes)].join(', ') : 'application/json';
+}
@@ -0,0 +1,152 @@
+import type { OpenApiSchema } from './types';
+
+export type Discriminator = {
+	readonly propertyName: string;
+	readonly value: string;
+};
+
+/**
+ * One alternative of a `oneOf` or `anyOf` schema, merged with the properties
+ * the parent schema declares next to it.
+ */
+export type SchemaVariant = {
+	readonly name: string;
+	readonly schema: OpenApiSchema;
+	readonly discriminator?: Discriminator;
+};
+
+type ComposedSchema = OpenApiSchema & {
+	allOf?: OpenApiSchema[];
+	oneOf?: OpenApiSchema[];
+	anyOf?: OpenApiSchema[];
+	discriminator?: { propertyName: string; mapping?: Record<string, string> };
+};
+
+/**
+ * Folds `allOf` members into a single schema. Properties and required lists
+ * are combined; when members declare the same property, both are merged.
+ */
+export function mergeAllOf(schema: OpenApiSchema): OpenApiSchema {
+	const { allOf, ...rest } = schema as ComposedSchema;
+	if (!allOf || allOf.length === 0) return schema;
+
+	return [...allOf.map(mergeAllOf), rest as OpenApiSchema].reduce(mergeSchemas, {});
+}
+
+function mergeSchemas(target: OpenApiSchema, source: OpenApiSchema): OpenApiSchema {
+	const properties = { ...(target.properties ?? {}) } as Record<string, OpenApiSchema>;
+	for (const [name, property] of Object.entries(source.properties ?? {})) {
+		const existing = properties[name];
+		properties[name] = existing
+			? mergeAllOf({ allOf: [existing, property as OpenApiSchema] } as OpenApiSchema)
+			: (property as OpenApiSchema);
+	}
+	const required = [...new Set([...(target.required ?? []), ...(source.required ?? [])])];
+	const merged = { ...target, ...source } as OpenApiSchema;
+
+	if (Object.keys(properties).length > 0) {
+		merged.properties = properties;
+		merged.type ??= 'object';
+	}
+	if (required.length > 0) merged.required = required;
+	return merged;
+}
+
+/**
+ * Lists the alternatives of a `oneOf` or `anyOf` body. With a discriminator,
+ * each variant is named after its discriminator value, taken from the mapping
+ * or from a single `enum`/`const` on the discriminator property.
+ */
+export function getSchemaVariants(schema: OpenApiSchema): SchemaVariant[] {
+	const merged = mergeAllOf(schema) as ComposedSchema;
+	const { oneOf, anyOf, discriminator, ...base } = merged;
+	const members = oneOf ?? anyOf;
+	if (!members || members.length === 0) return [];
+
+	const values = getDiscriminatorValues(members, discriminator);
+	const names = new Set<string>();
+
+	return members.map((member, index) => {
+		const variantSchema = mergeAllOf({ allOf: [base, member] } as OpenApiSchema);
+		const value = values[index];
+		let name = value ?? member.title ?? `Variant ${index + 1}`;
+		if (names.has(name)) name = `${name} (${index + 1})`;
+		names.add(name);
+
+		return {
+			name,
+			schema: variantSchema,
+			...(discriminator && value !== undefined
+				? { discriminator: { propertyName: discriminator.propertyName, value } }
+				: {}),
+		};
+	});
+}
+
+/**
+ * Returns the schema whose fields should be shown for the chosen variant. The
+ * discriminator property is left out because it is set automatically.
+ */
+export function resolveSchemaVariant(
+	schema: OpenApiSchema,
+	variantName?: string,
+): { schema: OpenApiSchema; discriminator?: Discriminator } {
+	const variants = getSchemaVariants(schema);
+	if (variants.length === 0) return { schema: mergeAllOf(schema) };
+
+	const variant = variants.find((v) => v.name === variantName) ?? variants[0];
+	if (!variant.discriminator) return { schema: variant.schema };
+
+	const { propertyName } = variant.discriminator;
+	const properties = Object.fromEntries(
+		Object.entries(variant.schema.properties ?? {}).filter(([name]) => name !== propertyName),
+	);
+	return {
+		schema: {
+			...variant.schema,
+			properties,
+			required: variant.schema.required?.filter((name) => name !== propertyName),
+		} as OpenApiSchema,
+		discriminator: variant.discriminator,
+	};
+}
+
+// Dereferencing replaces `$ref`s with copies, so mapping entries are matched
+// to members by their discriminator enum, then by title, then by position.
+function getDiscriminatorValues(
+	members: readonly OpenApiSchema[],
+	discriminator: ComposedSchema['discriminator'],
+): (string | undefined)[] {
+	if (!discriminator) return members.map(() => undefined);
+
+	const declared = members.map((member) => getDeclaredValue(member, discriminator.propertyName));
+	const mapping = Object.entries(discriminator.mapping ?? {});
+	if (mapping.length === 0) {
+		return members.map((member, index) => declared[index] ?? member.title);
+	}
+
+	const values: (string | undefined)[] = [...declared];
+	const unmatched = mapping.filter(([value]) => !values.includes(value));
+	members.forEach((member, index) => {
+		if (values[index] !== undefined) return;
+		const byTitle = unmatched.findIndex(([, ref]) => ref.split('/').pop() === member.title);
+		if (byTitle !== -1) {
+			values[index] = unmatched.splice(byTitle, 1)[0][0];
+		}
+	});
+	members.forEach((_, index) => {
+		if (values[index] === undefined && unmatched.length > 0) {
+			values[index] = unmatched.shift()?.[0];
+		}
+	});
+	return values;
+}
+
+function getDeclaredValue(member: OpenApiSchema, propertyName: string): string | undefined {
+	const property = mergeAllOf(member).properties?.[propertyName] as
+		| (OpenApiSchema & { const?: unknown })
+		| undefined;
+	if (property?.const !== undefined) return String(property.const);
+	if (property?.enum?.length === 1) return String(property.enum[0]);
+	return undefined;
+}
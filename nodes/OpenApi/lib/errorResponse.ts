@@ -0,0 +1,122 @@
+import { decodeResponseBody } from './responseBody';
+import type { OpenApiSchema, ParsedOperation } from './types';
+import { getValueAtPath } from './utils';
+import { findResponses } from './validateResponse';
+
+export type ErrorResponse = {
+	readonly statusCode: number;
+	readonly message: string | undefined;
+	readonly description: string | undefined;
+	readonly body: unknown;
+};
+
+// Checked in order when the documented schema does not point at a message.
+const MESSAGE_PATHS = [
+	'title',
+	'message',
+	'error.message',
+	'error_description',
+	'error',
+	'errors.0.message',
+	'errors.0.title',
+	'detail',
+	'description',
+];
+const DESCRIPTION_PATHS = ['detail', 'error_description', 'errors.0.detail', 'description'];
+const MESSAGE_PROPERTIES = [
+	'message',
+	'title',
+	'error',
+	'error_description',
+	'detail',
+	'description',
+];
+
+/**
+ * Extracts a readable message from an error response body, guided by the
+ * operation's documented schema for the status code. RFC 7807 problem
+ * details map `title` to the message and `detail` to the description.
+ */
+export function parseErrorResponse(
+	operation: ParsedOperation,
+	statusCode: number,
+	contentType: string | undefined,
+	rawBody: unknown,
+): ErrorResponse {
+	const decoded = decodeResponseBody(rawBody, contentType, false);
+	const body = decoded.binary ? undefined : decoded.body;
+
+	if (typeof body === 'string') {
+		const text = body.trim();
+		return {
+			statusCode,
+			message: text && text.length <= 200 && !text.startsWith('<') ? text : undefined,
+			description: undefined,
+			body,
+		};
+	}
+
+	const schemaPaths = getDocumentedMessagePaths(operation, statusCode, contentType);
+	const message = findString(body, [...schemaPaths, ...MESSAGE_PATHS]);
+	const description = findString(
+		body,
+		DESCRIPTION_PATHS.filter((path) => path !== message?.path),
+	);
+
+	return {
+		statusCode,
+		message: message?.value,
+		description:
+			description && description.value !== message?.value ? description.value : undefined,
+		body,
+	};
+}
+
+function getDocumentedMessagePaths(
+	operation: ParsedOperation,
+	statusCode: number,
+	contentType: string | undefined,
+): string[] {
+	const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+	const responses = findResponses(operation, statusCode);
+	const response =
+		responses.find((r) => r.contentType?.toLowerCase() === mediaType) ??
+		responses.find((r) => r.schema !== undefined);
+	if (!response?.schema) return [];
+	return findMessageProperties(response.schema, '');
+}
+
+function findMessageProperties(schema: OpenApiSchema, prefix: string): string[] {
+	const paths: string[] = [];
+	const properties = (schema.properties ?? {}) as Record<string, OpenApiSchema>;
+	for (const name of MESSAGE_PROPERTIES) {
+		if (properties[name]?.type === 'string') {
+			paths.push(`${prefix}${name}`);
+		}
+	}
+	// Look one level deep for envelopes such as `{ "error": { "message": ... } }`.
+	if (!prefix) {
+		for (const [name, property] of Object.entries(properties)) {
+			if (property.type === 'object') {
+				paths.push(...findMessageProperties(property, `${name}.`));
+			}
+		}
+	}
+	for (const member of (schema.allOf ?? []) as OpenApiSchema[]) {
+		paths.push(...findMessageProperties(member, prefix));
+	}
+	return paths;
+}
+
+function findString(
+	body: unknown,
+	paths: readonly string[],
+): { path: string; value: string } | undefined {
+	for (const path of paths) {
+		const value = getValueAtPath(body, path);
+		if (typeof value === 'string' && value.trim() !== '') {
+			return { path, value: value.trim() };
+		}
+	}
+	return undefined;
+}
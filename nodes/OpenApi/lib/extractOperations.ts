@@ -1,17 +1,23 @@
 import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { compareBodyFormats } from './requestBody';
 import type {
 	OpenApiDocument,
 	OpenApiOperation,
 	OpenApiParameter,
 	OpenApiRequestBody,
+	OpenApiResponse,
 	OpenApiSchema,
+	OpenApiSecurityScheme,
+	OpenApiServer,
+	ParameterStyle,
 	ParsedOperation,
 	ParsedParameter,
 	ParsedRequestBody,
-	RequestBodyContentType,
+	ParsedResponse,
+	ParsedSecurityRequirement,
 } from './types';
 
-const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'] as const;
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options', 'trace'] as const;
 type HttpMethod = (typeof HTTP_METHODS)[number];
 
 export function extractOperations(spec: OpenApiDocument): readonly ParsedOperation[] {
@@ -23,7 +29,9 @@ export function extractOperations(spec: OpenApiDocument): readonly ParsedOperati
 		for (const method of HTTP_METHODS) {
 			const operation = pathItem[method] as OpenApiOperation | undefined;
 			if (operation) {
-				operations.push(parseOperation(path, method, operation, pathItem.parameters));
+				operations.push(
+					parseOperation(spec, path, method, operation, pathItem.parameters, pathItem.servers),
+				);
 			}
 		}
 	}
@@ -32,12 +40,14 @@ export function extractOperations(spec: OpenApiDocument): readonly ParsedOperati
 }
 
 function parseOperation(
+	spec: OpenApiDocument,
 	path: string,
 	method: HttpMethod,
 	operation: OpenApiOperation,
 	pathLevelParameters:
 		| readonly (OpenApiParameter | OpenAPIV3.ReferenceObject | OpenAPIV3_1.ReferenceObject)[]
 		| undefined,
+	pathLevelServers: readonly OpenApiServer[] | undefined,
 ): ParsedOperation {
 	const allParameters = [...(pathLevelParameters ?? []), ...(operation.parameters ?? [])];
 	const parameters = allParameters.filter(isParameterObject).map(parseParameter);
@@ -50,9 +60,59 @@ function parseOperation(
 		description: operation.description ?? '',
 		parameters,
 		requestBody: extractRequestBody(operation.requestBody),
+		servers: firstNonEmpty(operation.servers, pathLevelServers),
+		security: parseSecurity(spec, operation.security ?? spec.security),
+		responses: parseResponses(operation.responses),
+		tags: operation.tags ?? [],
+		deprecated: operation.deprecated ?? false,
 	};
 }
 
+function parseResponses(responses: OpenApiOperation['responses']): readonly ParsedResponse[] {
+	const parsed: ParsedResponse[] = [];
+
+	for (const [statusCode, response] of Object.entries(responses ?? {})) {
+		if (!response || '$ref' in response) continue;
+		const content = Object.entries((response as OpenApiResponse).content ?? {});
+		if (content.length === 0) {
+			parsed.push({ statusCode, contentType: undefined, schema: undefined });
+			continue;
+		}
+		for (const [contentType, media] of content) {
+			parsed.push({ statusCode, contentType, schema: media.schema as OpenApiSchema | undefined });
+		}
+	}
+
+	return parsed;
+}
+
+function parseSecurity(
+	spec: OpenApiDocument,
+	requirements: readonly Record<string, string[]>[] | undefined,
+): readonly ParsedSecurityRequirement[] | undefined {
+	if (!requirements) return undefined;
+
+	const schemes = (spec.components?.securitySchemes ?? {}) as Record<
+		string,
+		OpenApiSecurityScheme | OpenAPIV3.ReferenceObject
+	>;
+
+	return requirements.map((requirement) =>
+		Object.entries(requirement).flatMap(([name, scopes]) => {
+			const scheme = schemes[name];
+			return [
+				{ name, scheme: scheme && !('$ref' in scheme) ? scheme : undefined, scopes: scopes ?? [] },
+			];
+		}),
+	);
+}
+
+function firstNonEmpty(
+	...serverLists: (readonly OpenApiServer[] | undefined)[]
+): readonly OpenApiServer[] | undefined {
+	return serverLists.find((servers) => servers !== undefined && servers.length > 0);
+}
+
 function isParameterObject(
 	param: OpenApiParameter | OpenAPIV3.ReferenceObject | OpenAPIV3_1.ReferenceObject,
 ): param is OpenApiParameter {
@@ -66,16 +126,12 @@ function parseParameter(param: OpenApiParameter): ParsedParameter {
 		required: param.required ?? false,
 		schema: (param.schema as OpenApiSchema) ?? { type: 'string' },
 		description: param.description ?? '',
+		style: param.style as ParameterStyle | undefined,
+		explode: param.explode,
+		allowReserved: param.allowReserved,
 	};
 }
 
-const SUPPORTED_CONTENT_TYPES: RequestBodyContentType[] = [
-	'application/json',
-	'application/x-www-form-urlencoded',
-	'multipart/form-data',
-	'application/xml',
-];
-
 function extractRequestBody(
 	requestBody: OpenApiOperation['requestBody'],
 ): ParsedRequestBody | undefined {
@@ -85,16 +141,21 @@ function extractRequestBody(
 	const body = requestBody as OpenApiRequestBody;
 	if (!body.content) return undefined;
 
-	for (const contentType of SUPPORTED_CONTENT_TYPES) {
-		const content = body.content[contentType];
-		if (content?.schema) {
-			return {
-				contentType,
-				schema: content.schema as OpenApiSchema,
-				required: body.required ?? false,
-			};
-		}
-	}
+	// Raw uploads such as `application/octet-stream` often declare no schema.
+	const contents = Object.entries(body.content).map(([contentType, media]) => ({
+		contentType,
+		schema: (media.schema ?? {}) as OpenApiSchema,
+		...(media.encoding ? { encoding: media.encoding } : {}),
+	}));
+	if (contents.length === 0) return undefined;
+
+	const preferred = contents.reduce((best, content) =>
+		compareBodyFormats(content.contentType, best.contentType) < 0 ? content : best,
+	);
 
-	return undefined;
+	return {
+		...preferred,
+		required: body.required ?? false,
+		contents,
+	};
 }
@@ -0,0 +1,154 @@
+import { Buffer } from 'node:buffer';
+import { randomBytes } from 'node:crypto';
+import { mergeAllOf } from './composeSchema';
+import type { OpenApiEncoding, OpenApiSchema } from './types';
+import { getSchemaType, parseArray } from './utils';
+
+export type MultipartFile = {
+	readonly data: Buffer;
+	readonly fileName?: string;
+	readonly mimeType?: string;
+};
+
+export type MultipartBody = {
+	readonly contentType: string;
+	readonly body: Buffer;
+};
+
+type Part = {
+	readonly name: string;
+	readonly value: Buffer | string;
+	readonly contentType: string;
+	readonly fileName?: string;
+	readonly headers: Record<string, string>;
+};
+
+/**
+ * Builds a `multipart/form-data` payload. Part content types follow the
+ * OpenAPI defaults (`text/plain` for primitives, `application/json` for
+ * objects, the file's own type for binaries) unless the operation's Encoding
+ * Object overrides them. Arrays become one part per item.
+ */
+export function buildMultipartBody(
+	schema: OpenApiSchema,
+	fields: Record<string, unknown>,
+	files: Record<string, readonly MultipartFile[]>,
+	encoding: Record<string, OpenApiEncoding> = {},
+	boundary = `----n8nFormBoundary${randomBytes(12).toString('hex')}`,
+): MultipartBody {
+	const properties = (mergeAllOf(schema).properties ?? {}) as Record<string, OpenApiSchema>;
+	const parts: Part[] = [];
+
+	for (const [name, value] of Object.entries(fields)) {
+		if (value === undefined || value === null) continue;
+		const property = properties[name] ?? {};
+		const headers = getEncodingHeaders(encoding[name]);
+		const itemSchema = getItemSchema(property);
+		const values = itemSchema ? toArray(value) : [value];
+		for (const item of values) {
+			const defaultType = getDefaultContentType(itemSchema ?? property, item);
+			parts.push({
+				name,
+				value: typeof item === 'object' ? JSON.stringify(item) : String(item),
+				contentType: pickContentType(encoding[name]?.contentType, undefined) ?? defaultType,
+				headers,
+			});
+		}
+	}
+
+	for (const [name, fileList] of Object.entries(files)) {
+		const headers = getEncodingHeaders(encoding[name]);
+		for (const file of fileList) {
+			parts.push({
+				name,
+				value: file.data,
+				fileName: file.fileName ?? name,
+				contentType:
+					pickContentType(encoding[name]?.contentType, file.mimeType) ??
+					file.mimeType ??
+					'application/octet-stream',
+				headers,
+			});
+		}
+	}
+
+	const chunks: Buffer[] = [];
+	for (const part of parts) {
+		chunks.push(Buffer.from(`--${boundary}\r\n${formatPartHeaders(part)}\r\n\r\n`));
+		chunks.push(Buffer.isBuffer(part.value) ? part.value : Buffer.from(part.value));
+		chunks.push(Buffer.from('\r\n'));
+	}
+	chunks.push(Buffer.from(`--${boundary}--\r\n`));
+
+	return {
+		contentType: `multipart/form-data; boundary=${boundary}`,
+		body: Buffer.concat(chunks),
+	};
+}
+
+function formatPartHeaders(part: Part): string {
+	const fileName = part.fileName ? `; filename="${escapeQuoted(part.fileName)}"` : '';
+	const lines = [
+		`Content-Disposition: form-data; name="${escapeQuoted(part.name)}"${fileName}`,
+		`Content-Type: ${part.contentType}`,
+		...Object.entries(part.headers).map(([name, value]) => `${name}: ${value}`),
+	];
+	return lines.join('\r\n');
+}
+
+function escapeQuoted(value: string): string {
+	return value.replace(/[\r\n]/g, ' ').replace(/"/g, '%22');
+}
+
+// An encoding may list several types or a wildcard such as `image/*`. A file
+// whose own type fits is sent with it; otherwise the first concrete type wins.
+function pickContentType(
+	encodingType: string | undefined,
+	mimeType: string | undefined,
+): string | undefined {
+	if (!encodingType) return undefined;
+	const candidates = encodingType.split(',').map((type) => type.trim());
+	if (mimeType && candidates.some((candidate) => matchesMediaType(candidate, mimeType))) {
+		return mimeType;
+	}
+	return candidates.find((candidate) => !candidate.includes('*'));
+}
+
+function matchesMediaType(pattern: string, mediaType: string): boolean {
+	const [type, subtype] = pattern.toLowerCase().split('/');
+	const [actualType, actualSubtype] = mediaType.split(';')[0].trim().toLowerCase().split('/');
+	return (type === '*' || type === actualType) && (subtype === '*' || subtype === actualSubtype);
+}
+
+// Header Objects describe headers rather than give values, so only headers
+// with an example or default are sent. `Content-Type` is set by the part itself.
+function getEncodingHeaders(encoding: OpenApiEncoding | undefined): Record<string, string> {
+	const headers: Record<string, string> = {};
+	for (const [name, header] of Object.entries(encoding?.headers ?? {})) {
+		if (name.toLowerCase() === 'content-type' || '$ref' in header) continue;
+		const schema = header.schema as OpenApiSchema | undefined;
+		const value = header.example ?? schema?.default ?? schema?.example;
+		if (value !== undefined) headers[name] = String(value);
+	}
+	return headers;
+}
+
+function getDefaultContentType(schema: OpenApiSchema, value: unknown): string {
+	const type = getSchemaType(schema);
+	if (type === 'object' || (type === undefined && typeof value === 'object')) {
+		return 'application/json';
+	}
+	return 'text/plain';
+}
+
+function getItemSchema(schema: OpenApiSchema): OpenApiSchema | undefined {
+	if (getSchemaType(schema) !== 'array') return undefined;
+	return ((schema as { items?: OpenApiSchema }).items ?? {}) as OpenApiSchema;
+}
+
+// Text that is not a JSON array is split on commas.
+function toArray(value: unknown): unknown[] {
+	const array = parseArray(value);
+	if (array) return array;
+	return typeof value === 'string' ? value.split(',').map((item) => item.trim()) : [value];
+}
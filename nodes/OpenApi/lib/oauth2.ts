@@ -0,0 +1,154 @@
+import { Buffer } from 'node:buffer';
+import { createHash } from 'node:crypto';
+import type { OpenAPIV3 } from 'openapi-types';
+import type { Credentials } from './authentication';
+import type { OpenApiDocument, OpenApiSecurityScheme, ParsedOperation } from './types';
+
+export type OAuth2Config = {
+	readonly tokenUrl: string;
+	readonly clientId: string;
+	readonly clientSecret: string;
+	readonly scopes: readonly string[];
+	readonly clientAuthentication: 'header' | 'body';
+};
+
+export type TokenRequester = (
+	url: string,
+	form: Record<string, string>,
+	headers: Record<string, string>,
+) => Promise<unknown>;
+
+type CachedToken = {
+	readonly accessToken: string;
+	readonly expiresAt: number;
+};
+
+// Tokens are refreshed this long before they expire.
+const EXPIRY_MARGIN_MS = 30_000;
+
+const tokenCache = new Map<string, CachedToken>();
+
+export function isOAuth2(credentials: Credentials): boolean {
+	return credentials.authType === 'oauth2ClientCredentials';
+}
+
+export function resolveOAuth2Config(
+	spec: OpenApiDocument,
+	operation: ParsedOperation,
+	credentials: Credentials,
+	specUrl?: string,
+): OAuth2Config {
+	const { flow, scopes } = findFlow(spec, operation);
+
+	const tokenUrl = credentials.oauth2TokenUrl || flow?.tokenUrl;
+	if (!tokenUrl) {
+		throw new Error('No OAuth2 clientCredentials flow with a token URL found in the spec');
+	}
+
+	return {
+		tokenUrl: specUrl ? new URL(tokenUrl, specUrl).toString() : tokenUrl,
+		clientId: credentials.clientId ?? '',
+		clientSecret: credentials.clientSecret ?? '',
+		scopes: credentials.oauth2Scopes
+			? credentials.oauth2Scopes.split(/[\s,]+/).filter(Boolean)
+			: scopes,
+		clientAuthentication: credentials.clientAuthentication === 'body' ? 'body' : 'header',
+	};
+}
+
+export async function getAccessToken(
+	config: OAuth2Config,
+	requestToken: TokenRequester,
+): Promise<string> {
+	const key = getCacheKey(config);
+	const cached = tokenCache.get(key);
+	if (cached && Date.now() < cached.expiresAt - EXPIRY_MARGIN_MS) {
+		return cached.accessToken;
+	}
+
+	const form: Record<string, string> = { grant_type: 'client_credentials' };
+	if (config.scopes.length > 0) {
+		form.scope = config.scopes.join(' ');
+	}
+	const headers: Record<string, string> = {};
+	if (config.clientAuthentication === 'header') {
+		const basic = Buffer.from(
+			`${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`,
+		).toString('base64');
+		headers.Authorization = `Basic ${basic}`;
+	} else {
+		form.client_id = config.clientId;
+		form.client_secret = config.clientSecret;
+	}
+
+	const response = parseTokenResponse(await requestToken(config.tokenUrl, form, headers));
+	tokenCache.set(key, {
+		accessToken: response.access_token,
+		expiresAt:
+			response.expires_in === undefined
+				? Number.POSITIVE_INFINITY
+				: Date.now() + response.expires_in * 1000,
+	});
+	return response.access_token;
+}
+
+// Called when the API rejects a token, so the next call fetches a new one.
+export function invalidateAccessToken(config: OAuth2Config): void {
+	tokenCache.delete(getCacheKey(config));
+}
+
+export function clearTokenCache(): void {
+	tokenCache.clear();
+}
+
+function findFlow(
+	spec: OpenApiDocument,
+	operation: ParsedOperation,
+): { flow: { tokenUrl: string } | undefined; scopes: readonly string[] } {
+	for (const requirement of operation.security ?? []) {
+		for (const { scheme, scopes } of requirement) {
+			const flow = getFlow(scheme);
+			if (flow) return { flow, scopes };
+		}
+	}
+
+	const schemes = Object.values(spec.components?.securitySchemes ?? {}) as OpenApiSecurityScheme[];
+	for (const scheme of schemes) {
+		const flow = getFlow(scheme);
+		if (flow) return { flow, scopes: [] };
+	}
+
+	return { flow: undefined, scopes: [] };
+}
+
+function getFlow(scheme: OpenApiSecurityScheme | undefined): { tokenUrl: string } | undefined {
+	if (scheme?.type !== 'oauth2') return undefined;
+	return (scheme as OpenAPIV3.OAuth2SecurityScheme).flows.clientCredentials;
+}
+
+function parseTokenResponse(response: unknown): {
+	access_token: string;
+	expires_in?: number;
+} {
+	const body = (typeof response === 'string' ? JSON.parse(response) : response) as Record<
+		string,
+		unknown
+	>;
+	if (typeof body?.access_token !== 'string') {
+		throw new Error('OAuth2 token response has no access_token');
+	}
+	const expiresIn = Number(body.expires_in);
+	return {
+		access_token: body.access_token,
+		expires_in: Number.isFinite(expiresIn) ? expiresIn : undefined,
+	};
+}
+
+// Tokens belong to one credential, so the key covers its secrets as well. They
+// are hashed to keep them out of the key itself.
+function getCacheKey(config: OAuth2Config): string {
+	const identity = createHash('sha256')
+		.update(JSON.stringify([config.clientId, config.clientSecret]))
+		.digest('hex');
+	return [config.tokenUrl, identity, [...config.scopes].sort().join(' ')].join('|');
+}
@@ -0,0 +1,51 @@
+import type { OpenApiDocument, ParsedOperation } from './types';
+
+export type OperationSearchResult = {
+	readonly name: string;
+	readonly value: string;
+	readonly description: string;
+};
+
+const UNTAGGED = 'Other';
+
+/**
+ * Filters operations by operationId, summary, path and tag; every word of the
+ * filter has to match. Results are grouped by their first tag, in the order
+ * the spec declares its tags, and named `Tag › Summary`.
+ */
+export function searchOperations(
+	spec: OpenApiDocument,
+	operations: readonly ParsedOperation[],
+	filter = '',
+): OperationSearchResult[] {
+	const words = filter.toLowerCase().split(/\s+/).filter(Boolean);
+	const tagOrder = [
+		...new Set([
+			...(spec.tags ?? []).map((tag) => tag.name),
+			...operations.flatMap((op) => op.tags ?? []),
+		]),
+	];
+	const rank = (op: ParsedOperation) => {
+		const tag = op.tags?.[0];
+		return tag === undefined ? tagOrder.length : tagOrder.indexOf(tag);
+	};
+
+	return operations
+		.map((op, index) => ({ op, index }))
+		.filter(({ op }) => {
+			const text = [op.operationId, op.summary, op.path, ...(op.tags ?? [])].join(' ');
+			return words.every((word) => text.toLowerCase().includes(word));
+		})
+		.sort((a, b) => rank(a.op) - rank(b.op) || a.index - b.index)
+		.map(({ op }) => toSearchResult(op));
+}
+
+function toSearchResult(op: ParsedOperation): OperationSearchResult {
+	const group = op.tags?.[0] ?? UNTAGGED;
+	const label = op.summary || op.operationId;
+	return {
+		name: `${group} › ${label}${op.deprecated ? ' (Deprecated)' : ''}`,
+		value: op.operationId,
+		description: `${op.deprecated ? 'Deprecated. ' : ''}${op.method.toUpperCase()} ${op.path}`,
+	};
+}
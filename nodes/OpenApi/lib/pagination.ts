@@ -0,0 +1,302 @@
+import type { IDataObject } from 'n8n-workflow';
+import type { ParsedOperation } from './types';
+import { getValueAtPath, isObject } from './utils';
+
+export type PaginationMode = 'auto' | 'linkHeader' | 'nextUrl' | 'cursor' | 'page' | 'offset';
+
+export type PaginationOptions = {
+	readonly mode?: PaginationMode;
+	readonly recordsPath?: string;
+	readonly nextUrlPath?: string;
+	readonly cursorParameter?: string;
+	readonly cursorPath?: string;
+	readonly pageParameter?: string;
+	readonly offsetParameter?: string;
+	readonly limitParameter?: string;
+	readonly pageSize?: number;
+	readonly maxRecords?: number;
+	readonly maxPages?: number;
+};
+
+export type PaginationStrategy =
+	| { readonly type: 'linkHeader' }
+	| { readonly type: 'nextUrl'; readonly path?: string }
+	| { readonly type: 'cursor'; readonly parameter: string; readonly path?: string }
+	| { readonly type: 'page'; readonly parameter: string }
+	| { readonly type: 'offset'; readonly parameter: string };
+
+/** Either an absolute URL to fetch as-is, or parameters to merge into the original request. */
+export type PageRequest = { readonly url: string } | { readonly params: IDataObject };
+
+export type PageResponse = {
+	readonly url: string;
+	readonly body: unknown;
+	readonly headers: Record<string, unknown>;
+};
+
+export type PageFetcher = (request: PageRequest) => Promise<PageResponse>;
+
+const CURSOR_PARAMETERS = [
+	'cursor',
+	'after',
+	'starting_after',
+	'page_token',
+	'pageToken',
+	'next_token',
+	'nextToken',
+	'continuation_token',
+	'continuationToken',
+];
+const PAGE_PARAMETERS = ['page', 'page_number', 'pageNumber', 'pageNo'];
+const OFFSET_PARAMETERS = ['offset', 'skip', 'start', '$skip'];
+const LIMIT_PARAMETERS = [
+	'limit',
+	'per_page',
+	'perPage',
+	'page_size',
+	'pageSize',
+	'size',
+	'count',
+	'max_results',
+	'maxResults',
+	'$top',
+];
+
+const NEXT_URL_PATHS = [
+	'next',
+	'nextLink',
+	'@odata.nextLink',
+	'next_page_url',
+	'links.next',
+	'links.next.href',
+	'_links.next.href',
+	'paging.next',
+	'meta.next',
+	'pagination.next',
+];
+const CURSOR_PATHS = [
+	'next_cursor',
+	'nextCursor',
+	'next_page_token',
+	'nextPageToken',
+	'next_token',
+	'nextToken',
+	'cursor',
+	'meta.next_cursor',
+	'meta.nextCursor',
+	'pagination.next_cursor',
+	'pagination.nextCursor',
+	'response_metadata.next_cursor',
+	'paging.cursors.after',
+];
+const RECORDS_PROPERTIES = ['data', 'items', 'results', 'records', 'entries', 'values', 'value'];
+
+export function resolvePaginationStrategies(
+	operation: ParsedOperation,
+	options: PaginationOptions,
+): PaginationStrategy[] {
+	switch (options.mode ?? 'auto') {
+		case 'linkHeader':
+			return [{ type: 'linkHeader' }];
+		case 'nextUrl':
+			return [{ type: 'nextUrl', path: options.nextUrlPath || undefined }];
+		case 'cursor':
+			return [
+				{
+					type: 'cursor',
+					parameter:
+						options.cursorParameter || findQueryParameter(operation, CURSOR_PARAMETERS) || 'cursor',
+					path: options.cursorPath || undefined,
+				},
+			];
+		case 'page':
+			return [
+				{
+					type: 'page',
+					parameter:
+						options.pageParameter || findQueryParameter(operation, PAGE_PARAMETERS) || 'page',
+				},
+			];
+		case 'offset':
+			return [
+				{
+					type: 'offset',
+					parameter:
+						options.offsetParameter || findQueryParameter(operation, OFFSET_PARAMETERS) || 'offset',
+				},
+			];
+		case 'auto':
+		default:
+			return detectPaginationStrategies(operation);
+	}
+}
+
+// Responses that link to the next page are followed first, since the API told
+// us exactly where to go. Parameter-based strategies are guesses from names.
+export function detectPaginationStrategies(operation: ParsedOperation): PaginationStrategy[] {
+	const strategies: PaginationStrategy[] = [{ type: 'linkHeader' }, { type: 'nextUrl' }];
+
+	const cursor = findQueryParameter(operation, CURSOR_PARAMETERS);
+	const page = findQueryParameter(operation, PAGE_PARAMETERS);
+	const offset = findQueryParameter(operation, OFFSET_PARAMETERS);
+	if (cursor) strategies.push({ type: 'cursor', parameter: cursor });
+	if (page) strategies.push({ type: 'page', parameter: page });
+	else if (offset) strategies.push({ type: 'offset', parameter: offset });
+
+	return strategies;
+}
+
+export function findLimitParameter(
+	operation: ParsedOperation,
+	options: PaginationOptions,
+): string | undefined {
+	return options.limitParameter || findQueryParameter(operation, LIMIT_PARAMETERS);
+}
+
+export async function paginate(
+	operation: ParsedOperation,
+	params: IDataObject,
+	options: PaginationOptions,
+	fetchPage: PageFetcher,
+): Promise<unknown[]> {
+	const strategies = resolvePaginationStrategies(operation, options);
+	const limitParameter = findLimitParameter(operation, options);
+	const pageSize =
+		options.pageSize || Number(limitParameter && params[limitParameter]) || undefined;
+	const sizeParams: IDataObject =
+		options.pageSize && limitParameter ? { [limitParameter]: options.pageSize } : {};
+
+	const records: unknown[] = [];
+	const seen = new Set<string>();
+	let request: PageRequest = { params: sizeParams };
+	let previousRecords: string | undefined;
+
+	for (let page = 1; ; page++) {
+		const response = await fetchPage(request);
+		const pageRecords = extractRecords(response.body, options.recordsPath);
+
+		// An API that keeps answering with its last page would never run short.
+		const serialized = JSON.stringify(pageRecords);
+		if (serialized === previousRecords) break;
+		previousRecords = serialized;
+		records.push(...pageRecords);
+
+		if (options.maxRecords && records.length >= options.maxRecords) {
+			return records.slice(0, options.maxRecords);
+		}
+		if (options.maxPages && page >= options.maxPages) break;
+		if (pageRecords.length === 0) break;
+		// A body without a records array is output whole, so there is nothing to page through.
+		if (pageRecords.length === 1 && pageRecords[0] === response.body) break;
+
+		const current = 'params' in request ? { ...params, ...request.params } : params;
+		const next = findNextPage(strategies, response, current, pageRecords.length, pageSize);
+		if (!next) break;
+
+		const resolved: PageRequest =
+			'url' in next
+				? { url: new URL(next.url, response.url).toString() }
+				: { params: { ...sizeParams, ...next.params } };
+
+		// Stop when an API hands back a page we have already fetched.
+		const key = JSON.stringify(resolved);
+		if (seen.has(key)) break;
+		seen.add(key);
+		request = resolved;
+	}
+
+	return records;
+}
+
+export function extractRecords(body: unknown, recordsPath?: string): unknown[] {
+	if (recordsPath) {
+		const value = getValueAtPath(body, recordsPath);
+		if (value === undefined || value === null) return [];
+		return Array.isArray(value) ? value : [value];
+	}
+	if (Array.isArray(body)) return body;
+	if (!isObject(body)) return body === undefined || body === null || body === '' ? [] : [body];
+
+	for (const property of RECORDS_PROPERTIES) {
+		if (Array.isArray(body[property])) return body[property] as unknown[];
+	}
+	const arrays = Object.values(body).filter(Array.isArray);
+	return arrays.length === 1 ? arrays[0] : [body];
+}
+
+export function parseLinkHeader(header: unknown): Record<string, string> {
+	const value = Array.isArray(header) ? header.join(',') : typeof header === 'string' ? header : '';
+	const links: Record<string, string> = {};
+	for (const match of value.matchAll(/<([^>]*)>\s*((?:;\s*[^;,]+)*)/g)) {
+		const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+		if (!rel) continue;
+		for (const name of rel[1].trim().split(/\s+/)) {
+			links[name.toLowerCase()] = match[1];
+		}
+	}
+	return links;
+}
+
+function findNextPage(
+	strategies: readonly PaginationStrategy[],
+	response: PageResponse,
+	params: IDataObject,
+	recordCount: number,
+	pageSize: number | undefined,
+): PageRequest | undefined {
+	for (const strategy of strategies) {
+		switch (strategy.type) {
+			case 'linkHeader': {
+				const next = parseLinkHeader(response.headers.link).next;
+				if (next) return { url: next };
+				break;
+			}
+			case 'nextUrl': {
+				const paths = strategy.path ? [strategy.path] : NEXT_URL_PATHS;
+				const next = paths.map((path) => getValueAtPath(response.body, path)).find(isUrl);
+				if (next) return { url: next };
+				break;
+			}
+			case 'cursor': {
+				if (isObject(response.body) && response.body.has_more === false) return undefined;
+				const paths = strategy.path ? [strategy.path] : CURSOR_PATHS;
+				const cursor = paths
+					.map((path) => getValueAtPath(response.body, path))
+					.find(
+						(value) => (typeof value === 'string' && value !== '') || typeof value === 'number',
+					);
+				if (cursor !== undefined) return { params: { [strategy.parameter]: cursor as string } };
+				break;
+			}
+			case 'page': {
+				if (pageSize && recordCount < pageSize) return undefined;
+				const page = Number(params[strategy.parameter] ?? 1);
+				return { params: { [strategy.parameter]: (Number.isFinite(page) ? page : 1) + 1 } };
+			}
+			case 'offset': {
+				if (pageSize && recordCount < pageSize) return undefined;
+				const offset = Number(params[strategy.parameter] ?? 0);
+				return {
+					params: { [strategy.parameter]: (Number.isFinite(offset) ? offset : 0) + recordCount },
+				};
+			}
+		}
+	}
+	return undefined;
+}
+
+function findQueryParameter(
+	operation: ParsedOperation,
+	names: readonly string[],
+): string | undefined {
+	const queryParameters = operation.parameters.filter((p) => p.in === 'query');
+	for (const name of names) {
+		const parameter = queryParameters.find((p) => p.name.toLowerCase() === name.toLowerCase());
+		if (parameter) return parameter.name;
+	}
+	return undefined;
+}
+
+function isUrl(value: unknown): value is string {
+	return typeof value === 'string' && /^(https?:\/\/|\/|\?)/.test(value);
+}
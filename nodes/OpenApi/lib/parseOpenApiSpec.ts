@@ -1,5 +1,6 @@
 import { dereference, validate } from '@scalar/openapi-parser';
 import type { OpenApiDocument } from './types';
+import { isSwagger2, upgradeSwagger } from './upgradeSwagger';
 
 export async function parseOpenApiSpec(specContent: string): Promise<OpenApiDocument> {
 	const { valid, errors } = await validate(specContent);
@@ -9,5 +10,8 @@ export async function parseOpenApiSpec(specContent: string): Promise<OpenApiDocu
 	}
 
 	const { schema } = await dereference(specContent);
+	if (isSwagger2(schema)) {
+		return upgradeSwagger(schema);
+	}
 	return schema as OpenApiDocument;
 }
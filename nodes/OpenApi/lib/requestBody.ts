@@ -0,0 +1,63 @@
+import { Buffer } from 'node:buffer';
+import { Readable } from 'node:stream';
+import type { ParsedRequestBody, RequestBodyContent } from './types';
+
+export type BodyFormat = 'json' | 'form' | 'multipart' | 'xml' | 'text' | 'binary';
+
+/**
+ * Media type patterns per body format. They are kept as strings so the node
+ * can use them in display conditions, which is why they only match media types
+ * passed through `normalizeMediaType`. Structured suffixes such as
+ * `application/vnd.api+json` or `application/atom+xml` count as JSON and XML.
+ */
+export const MEDIA_TYPE_PATTERNS: Record<BodyFormat, string> = {
+	json: '^[^/]+/([^;]+\\+)?json\\s*(;|$)',
+	form: '^application/x-www-form-urlencoded\\s*(;|$)',
+	multipart: '^multipart/form-data\\s*(;|$)',
+	xml: '^[^/]+/([^;]+\\+)?xml\\s*(;|$)',
+	text: '^text/(?!([^;]+\\+)?(json|xml)\\s*(;|$))',
+	binary:
+		'^(?!text/|multipart/form-data|application/x-www-form-urlencoded|[^/]+/([^;]+\\+)?(json|xml)\\s*(;|$))[^/]+/',
+};
+
+// Also the order in which an operation's media types are preferred.
+const BODY_FORMATS: BodyFormat[] = ['json', 'form', 'multipart', 'xml', 'text', 'binary'];
+
+export function normalizeMediaType(mediaType: string): string {
+	return mediaType.trim().toLowerCase();
+}
+
+export function getBodyFormat(mediaType: string): BodyFormat {
+	const type = normalizeMediaType(mediaType);
+	return (
+		BODY_FORMATS.find((format) => new RegExp(MEDIA_TYPE_PATTERNS[format]).test(type)) ?? 'binary'
+	);
+}
+
+export function compareBodyFormats(a: string, b: string): number {
+	return BODY_FORMATS.indexOf(getBodyFormat(a)) - BODY_FORMATS.indexOf(getBodyFormat(b));
+}
+
+export function isBinaryBody(data: unknown): data is Buffer | Readable {
+	return Buffer.isBuffer(data) || data instanceof Readable;
+}
+
+/**
+ * Picks the media type chosen in the node, falling back to the operation's
+ * preferred one when the choice is empty or no longer offered by the spec.
+ */
+export function getRequestBodyContent(
+	requestBody: ParsedRequestBody,
+	contentType: string | undefined,
+): RequestBodyContent {
+	const content = requestBody.contents?.find(
+		(c) => normalizeMediaType(c.contentType) === normalizeMediaType(contentType ?? ''),
+	);
+	return (
+		content ?? {
+			contentType: requestBody.contentType,
+			schema: requestBody.schema,
+			encoding: requestBody.encoding,
+		}
+	);
+}
@@ -0,0 +1,59 @@
+import type { OpenApiDocument, OpenApiServer, ParsedOperation } from './types';
+
+// OpenAPI: when servers is missing or empty, the default server URL is "/".
+const DEFAULT_SERVERS: readonly OpenApiServer[] = [{ url: '/' }];
+
+export function getServers(
+	spec: OpenApiDocument,
+	operation?: ParsedOperation,
+): readonly OpenApiServer[] {
+	if (operation?.servers && operation.servers.length > 0) {
+		return operation.servers;
+	}
+	if (spec.servers && spec.servers.length > 0) {
+		return spec.servers;
+	}
+	return DEFAULT_SERVERS;
+}
+
+export function selectServer(
+	servers: readonly OpenApiServer[],
+	url?: string,
+): OpenApiServer | undefined {
+	return servers.find((server) => server.url === url) ?? servers[0];
+}
+
+export function resolveServerUrl(
+	server: OpenApiServer,
+	variables: Record<string, unknown> = {},
+	specUrl?: string,
+): string {
+	const url = server.url.replace(/\{([^}]+)\}/g, (_, name: string) => {
+		const variable = server.variables?.[name];
+		const value = variables[name];
+		const resolved =
+			value === undefined || value === null || value === '' ? variable?.default : String(value);
+
+		if (resolved === undefined) {
+			throw new Error(`Server variable "${name}" has no value`);
+		}
+		if (variable?.enum && variable.enum.length > 0 && !variable.enum.includes(resolved)) {
+			throw new Error(
+				`Server variable "${name}" must be one of ${variable.enum.join(', ')}, got "${resolved}"`,
+			);
+		}
+		return resolved;
+	});
+	return resolveRelativeUrl(url, specUrl);
+}
+
+function resolveRelativeUrl(url: string, specUrl: string | undefined): string {
+	if (!specUrl) {
+		return url;
+	}
+	try {
+		return new URL(url, specUrl).toString();
+	} catch {
+		return url;
+	}
+}
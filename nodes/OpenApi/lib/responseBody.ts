@@ -0,0 +1,95 @@
+import { Buffer } from 'node:buffer';
+import type { ParsedOperation } from './types';
+import { parseJson } from './utils';
+
+export type DecodedBody =
+	| { readonly binary: false; readonly body: unknown }
+	| { readonly binary: true; readonly data: Buffer; readonly mimeType: string | undefined };
+
+const TEXT_MEDIA_TYPES = [
+	/^text\//,
+	/^application\/(.+\+)?json$/,
+	/^application\/(.+\+)?xml$/,
+	/^application\/x-www-form-urlencoded$/,
+	/^application\/(x-)?(java|ecma)script$/,
+	/^application\/(x-)?yaml$/,
+	/^application\/x-ndjson$/,
+];
+
+export function isBinaryMediaType(mediaType: string): boolean {
+	const type = normalizeMediaType(mediaType);
+	if (!type || type === '*/*') return false;
+	return !TEXT_MEDIA_TYPES.some((pattern) => pattern.test(type));
+}
+
+/**
+ * An operation downloads files when every documented success response has
+ * content and all of it is binary.
+ */
+export function expectsBinaryResponse(operation: ParsedOperation): boolean {
+	const success = (operation.responses ?? []).filter(
+		(r) => /^2/.test(r.statusCode) && r.contentType !== undefined,
+	);
+	return (
+		success.length > 0 &&
+		success.every(
+			(r) =>
+				isBinaryMediaType(r.contentType ?? '') ||
+				(normalizeMediaType(r.contentType ?? '') === '*/*' && r.schema?.format === 'binary'),
+		)
+	);
+}
+
+/**
+ * Responses are fetched as raw bytes so files are not mangled by text
+ * decoding. The actual `Content-Type` decides how to decode them, falling back
+ * to what the spec documents when the server does not send one.
+ */
+export function decodeResponseBody(
+	body: unknown,
+	contentType: string | undefined,
+	expectBinary: boolean,
+): DecodedBody {
+	if (!Buffer.isBuffer(body) && !(body instanceof ArrayBuffer)) {
+		return { binary: false, body };
+	}
+	const data = Buffer.isBuffer(body) ? body : Buffer.from(body);
+	const mediaType = normalizeMediaType(contentType ?? '');
+
+	if (mediaType ? isBinaryMediaType(mediaType) : expectBinary && data.length > 0) {
+		return { binary: true, data, mimeType: mediaType || undefined };
+	}
+
+	const text = data.toString('utf-8');
+	if (mediaType && !/^application\/(.+\+)?json$/.test(mediaType)) {
+		return { binary: false, body: text };
+	}
+	return { binary: false, body: text.trim() === '' ? text : parseJson(text, text) };
+}
+
+export function getFileName(contentDisposition: unknown, url?: string): string | undefined {
+	if (typeof contentDisposition === 'string') {
+		const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(contentDisposition);
+		if (extended) {
+			try {
+				return decodeURIComponent(extended[2].trim());
+			} catch {
+				// Fall through to the plain filename parameter.
+			}
+		}
+		const plain = /filename\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]+))/i.exec(contentDisposition);
+		if (plain) {
+			return (plain[1]?.replace(/\\(.)/g, '$1') ?? plain[2]).trim();
+		}
+	}
+
+	if (url) {
+		const segment = new URL(url, 'http://localhost').pathname.split('/').pop() ?? '';
+		if (segment.includes('.')) return decodeURIComponent(segment);
+	}
+	return undefined;
+}
+
+function normalizeMediaType(mediaType: string): string {
+	return mediaType.split(';')[0].trim().toLowerCase();
+}
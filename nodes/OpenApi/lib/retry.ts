@@ -0,0 +1,149 @@
+import type { ParsedOperation } from './types';
+
+export type RetryOptions = {
+	readonly maxAttempts: number;
+	readonly baseDelayMs: number;
+	readonly maxDelayMs: number;
+	/** Fraction of the delay, between 0 and 1, that is randomly added or removed. */
+	readonly jitter: number;
+	readonly retryableStatusCodes: readonly number[];
+	readonly retryNonIdempotent: boolean;
+};
+
+export type RetryResponse = {
+	readonly statusCode?: number;
+	readonly headers?: Record<string, unknown>;
+	readonly errorCode?: string;
+};
+
+export type Sleep = (ms: number) => Promise<void>;
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+	maxAttempts: 3,
+	baseDelayMs: 1000,
+	maxDelayMs: 60_000,
+	jitter: 0.2,
+	retryableStatusCodes: parseStatusCodes('429, 500-599'),
+	retryNonIdempotent: false,
+};
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'trace', 'put', 'delete'];
+
+const RETRYABLE_ERROR_CODES = [
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EAI_AGAIN',
+	'EPIPE',
+];
+
+/** Parses a list such as `429, 500-599` into status codes. */
+export function parseStatusCodes(value: string): number[] {
+	const codes: number[] = [];
+	for (const part of value.split(',')) {
+		const [start, end] = part.split('-').map((n) => Number(n.trim()));
+		if (!Number.isInteger(start)) continue;
+		if (end === undefined) {
+			codes.push(start);
+		} else if (Number.isInteger(end)) {
+			for (let code = start; code <= end; code++) codes.push(code);
+		}
+	}
+	return codes;
+}
+
+export function canRetry(operation: ParsedOperation, options: RetryOptions): boolean {
+	return (
+		options.maxAttempts > 1 &&
+		(options.retryNonIdempotent || IDEMPOTENT_METHODS.includes(operation.method))
+	);
+}
+
+/**
+ * Returns how long to wait before the next attempt, or `undefined` when the
+ * server asks for a longer wait than `maxDelayMs` allows.
+ */
+export function getRetryDelay(
+	attempt: number,
+	options: RetryOptions,
+	headers: Record<string, unknown> = {},
+	now = Date.now(),
+	random = Math.random,
+): number | undefined {
+	const requested = getRequestedDelay(headers, now);
+	if (requested !== undefined) {
+		return requested <= options.maxDelayMs ? requested : undefined;
+	}
+
+	const exponential = options.baseDelayMs * 2 ** (attempt - 1);
+	const jitter = Math.min(Math.max(options.jitter, 0), 1);
+	const delay = exponential * (1 + jitter * (2 * random() - 1));
+	return Math.round(Math.min(delay, options.maxDelayMs));
+}
+
+export async function withRetry<T>(
+	send: () => Promise<T>,
+	options: RetryOptions,
+	inspect: (outcome: { result: T } | { error: unknown }) => RetryResponse,
+	sleep: Sleep = defaultSleep,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		let outcome: { result: T } | { error: unknown };
+		try {
+			outcome = { result: await send() };
+		} catch (error) {
+			outcome = { error };
+		}
+
+		const response = inspect(outcome);
+		const delay =
+			attempt < options.maxAttempts && isRetryable(response, options)
+				? getRetryDelay(attempt, options, response.headers)
+				: undefined;
+
+		if (delay === undefined) {
+			if ('error' in outcome) throw outcome.error;
+			return outcome.result;
+		}
+		await sleep(delay);
+	}
+}
+
+function isRetryable(response: RetryResponse, options: RetryOptions): boolean {
+	if (response.statusCode !== undefined) {
+		return options.retryableStatusCodes.includes(response.statusCode);
+	}
+	return response.errorCode !== undefined && RETRYABLE_ERROR_CODES.includes(response.errorCode);
+}
+
+function getRequestedDelay(headers: Record<string, unknown>, now: number): number | undefined {
+	const retryAfter = getHeader(headers, 'retry-after');
+	if (retryAfter) {
+		if (/^\d+$/.test(retryAfter)) return Number(retryAfter) * 1000;
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(date - now, 0);
+	}
+
+	const reset = getHeader(headers, 'x-ratelimit-reset');
+	if (reset && /^\d+(\.\d+)?$/.test(reset)) {
+		const value = Number(reset);
+		// Some APIs send an epoch timestamp in seconds or milliseconds, others
+		// the number of seconds left.
+		if (value > 1e12) return Math.max(value - now, 0);
+		if (value > 1e9) return Math.max(value * 1000 - now, 0);
+		return value * 1000;
+	}
+
+	return undefined;
+}
+
+function getHeader(headers: Record<string, unknown>, name: string): string | undefined {
+	const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+	const value = Array.isArray(entry?.[1]) ? entry[1][0] : entry?.[1];
+	return value === undefined || value === null ? undefined : String(value).trim();
+}
+
+async function defaultSleep(ms: number): Promise<void> {
+	await new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,18 +1,70 @@
 import type { INodeProperties } from 'n8n-workflow';
+import { getSchemaVariants, mergeAllOf, resolveSchemaVariant } from './composeSchema';
 import type { OpenApiSchema } from './types';
+import { toDisplayName } from './utils';
 
+type DisplayConditions = Record<string, string[]>;
+
+/**
+ * Bodies with `oneOf`/`anyOf` alternatives get a `variant` selector. Each
+ * variant's fields only show when it is selected, and its discriminator value
+ * is sent through a hidden property.
+ */
 export function schemaToNodeProperties(
 	schema: OpenApiSchema | undefined,
 	operationId: string,
 ): INodeProperties[] {
 	if (!schema) return [];
+
+	const variants = getSchemaVariants(schema);
+	if (variants.length === 0) {
+		return objectToNodeProperties(mergeAllOf(schema), { operation: [operationId] });
+	}
+
+	const selector: INodeProperties = {
+		displayName: 'Variant',
+		name: 'variant',
+		type: 'options',
+		default: '',
+		options: variants.map((variant) => ({ name: variant.name, value: variant.name })),
+		description: 'Which alternative of the request body to send',
+		displayOptions: { show: { operation: [operationId] } },
+	};
+
+	return [
+		selector,
+		...variants.flatMap((variant, index) => {
+			// Until a variant is picked, the first one applies.
+			const selected = index === 0 ? ['', variant.name] : [variant.name];
+			const show = { operation: [operationId], variant: selected };
+			const { schema: variantSchema, discriminator } = resolveSchemaVariant(schema, variant.name);
+			const properties = objectToNodeProperties(variantSchema, show);
+			if (!discriminator) return properties;
+			return [
+				{
+					displayName: toDisplayName(discriminator.propertyName),
+					name: discriminator.propertyName,
+					type: 'hidden' as const,
+					default: discriminator.value,
+					displayOptions: { show },
+					routing: {
+						send: { type: 'body' as const, property: discriminator.propertyName },
+					},
+				},
+				...properties,
+			];
+		}),
+	];
+}
+
+function objectToNodeProperties(schema: OpenApiSchema, show: DisplayConditions): INodeProperties[] {
 	if (schema.type !== 'object') return [];
 	if (!schema.properties) return [];
 
 	const requiredFields = schema.required ?? [];
 
 	return Object.entries(schema.properties).map(([name, propSchema]) =>
-		convertProperty(name, propSchema as OpenApiSchema, requiredFields, operationId),
+		convertProperty(name, mergeAllOf(propSchema as OpenApiSchema), requiredFields, show),
 	);
 }
 
@@ -20,7 +72,7 @@ function convertProperty(
 	name: string,
 	schema: OpenApiSchema,
 	requiredFields: readonly string[],
-	operationId: string,
+	show: DisplayConditions,
 ): INodeProperties {
 	const isRequired = requiredFields.includes(name);
 	const baseProperty = {
@@ -29,11 +81,7 @@ function convertProperty(
 		required: isRequired,
 		default: getDefaultValue(schema),
 		description: schema.description ?? '',
-		displayOptions: {
-			show: {
-				operation: [operationId],
-			},
-		},
+		displayOptions: { show },
 		routing: {
 			send: {
 				type: 'body' as const,
@@ -90,7 +138,3 @@ function getDefaultValue(schema: OpenApiSchema): string | number | boolean {
 			return '';
 	}
 }
-
-function toDisplayName(name: string): string {
-	return name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
-}
@@ -0,0 +1,176 @@
+import type { OpenApiSchema, ParameterStyle, ParsedParameter } from './types';
+import { isObject, parseJson } from './utils';
+
+type Primitive = string | number | boolean;
+
+const DEFAULT_STYLES: Record<ParsedParameter['in'], ParameterStyle> = {
+	path: 'simple',
+	query: 'form',
+	header: 'simple',
+	cookie: 'form',
+};
+
+const RESERVED_CHARACTERS = /%(3A|2F|3F|23|5B|5D|40|21|24|26|27|28|29|2A|2B|2C|3B|3D)/gi;
+
+export function serializePathParameter(param: ParsedParameter, value: unknown): string {
+	const style = getStyle(param);
+	const explode = getExplode(param);
+	const normalized = normalizeValue(param.schema, value);
+	const encode = (v: Primitive) => encodeValue(v, param.allowReserved ?? false);
+
+	switch (style) {
+		case 'label': {
+			const separator = explode ? '.' : ',';
+			if (Array.isArray(normalized)) {
+				return `.${normalized.map(encode).join(separator)}`;
+			}
+			if (isObject(normalized)) {
+				return `.${joinObject(normalized, encode, explode, separator)}`;
+			}
+			return `.${encode(normalized)}`;
+		}
+		case 'matrix': {
+			const name = param.name;
+			if (Array.isArray(normalized)) {
+				if (explode) {
+					return normalized.map((v) => `;${name}=${encode(v)}`).join('');
+				}
+				return `;${name}=${normalized.map(encode).join(',')}`;
+			}
+			if (isObject(normalized)) {
+				if (explode) {
+					return `;${joinObject(normalized, encode, true, ';')}`;
+				}
+				return `;${name}=${joinObject(normalized, encode, false, ',')}`;
+			}
+			return `;${name}=${encode(normalized)}`;
+		}
+		case 'simple':
+		default: {
+			if (Array.isArray(normalized)) {
+				return normalized.map(encode).join(',');
+			}
+			if (isObject(normalized)) {
+				return joinObject(normalized, encode, explode, ',');
+			}
+			return encode(normalized);
+		}
+	}
+}
+
+export function serializeQueryParameter(param: ParsedParameter, value: unknown): string[] {
+	const style = getStyle(param);
+	const explode = getExplode(param);
+	const normalized = normalizeValue(param.schema, value);
+	const name = encodeURIComponent(param.name);
+	const encode = (v: Primitive) => encodeValue(v, param.allowReserved ?? false);
+
+	if (style === 'deepObject' && isObject(normalized)) {
+		return Object.entries(normalized).map(
+			([key, v]) => `${name}[${encodeURIComponent(key)}]=${encode(v)}`,
+		);
+	}
+
+	if (Array.isArray(normalized)) {
+		if (normalized.length === 0) return [];
+		if (explode) {
+			return normalized.map((v) => `${name}=${encode(v)}`);
+		}
+		const delimiter = getDelimiter(style);
+		return [`${name}=${normalized.map(encode).join(delimiter)}`];
+	}
+
+	if (isObject(normalized)) {
+		if (explode) {
+			return Object.entries(normalized).map(
+				([key, v]) => `${encodeURIComponent(key)}=${encode(v)}`,
+			);
+		}
+		const delimiter = getDelimiter(style);
+		return [`${name}=${joinObject(normalized, encode, false, delimiter)}`];
+	}
+
+	return [`${name}=${encode(normalized)}`];
+}
+
+export function serializeHeaderParameter(param: ParsedParameter, value: unknown): string {
+	const explode = getExplode(param);
+	const normalized = normalizeValue(param.schema, value);
+	const toString = (v: Primitive) => String(v);
+
+	if (Array.isArray(normalized)) {
+		return normalized.map(toString).join(',');
+	}
+	if (isObject(normalized)) {
+		return joinObject(normalized, toString, explode, ',');
+	}
+	return toString(normalized);
+}
+
+function getStyle(param: ParsedParameter): ParameterStyle {
+	return param.style ?? DEFAULT_STYLES[param.in];
+}
+
+function getExplode(param: ParsedParameter): boolean {
+	return param.explode ?? getStyle(param) === 'form';
+}
+
+function getDelimiter(style: ParameterStyle): string {
+	switch (style) {
+		case 'spaceDelimited':
+			return '%20';
+		case 'pipeDelimited':
+			return '|';
+		default:
+			return ',';
+	}
+}
+
+function joinObject(
+	object: Record<string, Primitive>,
+	encode: (value: Primitive) => string,
+	explode: boolean,
+	separator: string,
+): string {
+	const entries = Object.entries(object);
+	if (explode) {
+		return entries.map(([key, v]) => `${encode(key)}=${encode(v)}`).join(separator);
+	}
+	return entries.flatMap(([key, v]) => [encode(key), encode(v)]).join(separator);
+}
+
+function encodeValue(value: Primitive, allowReserved: boolean): string {
+	const encoded = encodeURIComponent(String(value));
+	if (!allowReserved) return encoded;
+	return encoded.replace(RESERVED_CHARACTERS, (escape) => decodeURIComponent(escape));
+}
+
+// Resource mapper fields for array and object parameters may hold JSON text.
+export function normalizeValue(
+	schema: OpenApiSchema,
+	value: unknown,
+): Primitive | Primitive[] | Record<string, Primitive> {
+	let parsed = value;
+	const schemaType = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+	if (typeof value === 'string' && (schemaType === 'array' || schemaType === 'object')) {
+		parsed = parseJson(value, undefined) ?? (schemaType === 'array' ? value.split(',') : value);
+	}
+
+	if (Array.isArray(parsed)) {
+		return parsed.map(toPrimitive);
+	}
+	if (isObject(parsed)) {
+		return Object.fromEntries(Object.entries(parsed).map(([key, v]) => [key, toPrimitive(v)]));
+	}
+	return toPrimitive(parsed);
+}
+
+function toPrimitive(value: unknown): Primitive {
+	if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+		return value;
+	}
+	if (value === null || value === undefined) {
+		return '';
+	}
+	return JSON.stringify(value);
+}
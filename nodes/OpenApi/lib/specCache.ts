@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+import { extractOperations } from './extractOperations';
+import { parseOpenApiSpec } from './parseOpenApiSpec';
+import type { OpenApiDocument, ParsedOperation } from './types';
+
+export type LoadedSpec = {
+	readonly spec: OpenApiDocument;
+	readonly operations: readonly ParsedOperation[];
+	readonly operationsById: ReadonlyMap<string, ParsedOperation>;
+};
+
+export type SpecValidators = {
+	readonly etag?: string;
+	readonly lastModified?: string;
+};
+
+export type SpecFetchResult =
+	| { readonly notModified: true }
+	| ({ readonly notModified: false; readonly content: string } & SpecValidators);
+
+export type SpecFetcher = (validators: SpecValidators) => Promise<SpecFetchResult>;
+
+type UrlEntry = {
+	readonly hash: string;
+	readonly validators: SpecValidators;
+	readonly fetchedAt: number;
+};
+
+// Every edit of a pasted spec is a new source, so only the most recently used
+// sources are kept.
+export const MAX_CACHED_SOURCES = 20;
+
+// Kept in least recently used order.
+const urlEntries = new Map<string, UrlEntry>();
+const parsedSpecs = new Map<string, Promise<LoadedSpec>>();
+const pendingLoads = new Map<string, Promise<LoadedSpec>>();
+
+export async function loadCachedSpec(
+	url: string,
+	ttlMs: number,
+	fetcher: SpecFetcher,
+): Promise<LoadedSpec> {
+	const entry = urlEntries.get(url);
+	if (entry && Date.now() - entry.fetchedAt < ttlMs) {
+		const loaded = parsedSpecs.get(entry.hash);
+		if (loaded) {
+			setEntry(url, entry);
+			return await loaded;
+		}
+	}
+
+	const pending = pendingLoads.get(url);
+	if (pending) return await pending;
+
+	const load = revalidate(url, entry, fetcher).finally(() => pendingLoads.delete(url));
+	pendingLoads.set(url, load);
+	return await load;
+}
+
+export function clearSpecCache(): void {
+	urlEntries.clear();
+	parsedSpecs.clear();
+	pendingLoads.clear();
+}
+
+async function revalidate(
+	url: string,
+	entry: UrlEntry | undefined,
+	fetcher: SpecFetcher,
+): Promise<LoadedSpec> {
+	const cached = entry ? parsedSpecs.get(entry.hash) : undefined;
+	const result = await fetcher(cached && entry ? entry.validators : {});
+
+	if (result.notModified) {
+		if (!entry || !cached) {
+			throw new Error(`Spec at ${url} was reported unmodified but is not cached`);
+		}
+		setEntry(url, { ...entry, fetchedAt: Date.now() });
+		return await cached;
+	}
+
+	const hash = createHash('sha256').update(result.content).digest('hex');
+	setEntry(url, {
+		hash,
+		validators: { etag: result.etag, lastModified: result.lastModified },
+		fetchedAt: Date.now(),
+	});
+	if (entry && entry.hash !== hash) {
+		evictUnreferenced(entry.hash);
+	}
+
+	let loaded = parsedSpecs.get(hash);
+	if (!loaded) {
+		loaded = parseSpec(result.content);
+		parsedSpecs.set(hash, loaded);
+		loaded.catch(() => {
+			parsedSpecs.delete(hash);
+			urlEntries.delete(url);
+		});
+	}
+	return await loaded;
+}
+
+async function parseSpec(content: string): Promise<LoadedSpec> {
+	const spec = await parseOpenApiSpec(content);
+	const operations = extractOperations(spec);
+	return {
+		spec,
+		operations,
+		operationsById: new Map(operations.map((op) => [op.operationId, op])),
+	};
+}
+
+function setEntry(url: string, entry: UrlEntry): void {
+	urlEntries.delete(url);
+	urlEntries.set(url, entry);
+
+	for (const [oldestUrl, oldest] of urlEntries) {
+		if (urlEntries.size <= MAX_CACHED_SOURCES) break;
+		urlEntries.delete(oldestUrl);
+		evictUnreferenced(oldest.hash);
+	}
+}
+
+function evictUnreferenced(hash: string): void {
+	for (const entry of urlEntries.values()) {
+		if (entry.hash === hash) return;
+	}
+	parsedSpecs.delete(hash);
+}
@@ -0,0 +1,102 @@
+import { createHash } from 'node:crypto';
+import { readFile, realpath, stat } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { isAbsolute, join, relative, resolve, sep } from 'node:path';
+import type { SpecFetcher, SpecValidators, SpecFetchResult } from './specCache';
+
+export type SpecSource =
+	| { readonly type: 'url'; readonly url: string }
+	| { readonly type: 'text'; readonly content: string }
+	| { readonly type: 'file'; readonly path: string };
+
+type UrlFetcher = (url: string, validators: SpecValidators) => Promise<SpecFetchResult>;
+
+export function getSpecSource(credentials: Record<string, unknown>): SpecSource {
+	switch (credentials.specSource) {
+		case 'text':
+			return { type: 'text', content: (credentials.specContent as string | undefined) ?? '' };
+		case 'file':
+			return {
+				type: 'file',
+				path: resolve((credentials.specFilePath as string | undefined) ?? ''),
+			};
+		case 'url':
+		default:
+			return { type: 'url', url: (credentials.specUrl as string | undefined) ?? '' };
+	}
+}
+
+export function getSpecCacheKey(source: SpecSource): string {
+	switch (source.type) {
+		case 'url':
+			return source.url;
+		case 'file':
+			return `file:${source.path}`;
+		case 'text':
+			return `text:${createHash('sha256').update(source.content).digest('hex')}`;
+	}
+}
+
+// Only specs loaded from a URL can resolve relative server URLs.
+export function getSpecUrl(source: SpecSource): string | undefined {
+	return source.type === 'url' ? source.url : undefined;
+}
+
+export function createSpecFetcher(source: SpecSource, fetchUrl: UrlFetcher): SpecFetcher {
+	switch (source.type) {
+		case 'url':
+			return async (validators) => await fetchUrl(source.url, validators);
+		case 'text':
+			return async () => ({ notModified: false, content: source.content });
+		case 'file':
+			return async (validators) => await readSpecFile(source.path, validators);
+	}
+}
+
+/**
+ * Applies n8n's file access rules: `N8N_RESTRICT_FILE_ACCESS_TO` limits reads
+ * to the listed directories, and n8n's own files stay off limits unless
+ * `N8N_BLOCK_FILE_ACCESS_TO_N8N_FILES` is `false`. Spec files are also read
+ * while loading options, where n8n's file helpers are not available.
+ */
+export function isFilePathBlocked(path: string, env: NodeJS.ProcessEnv = process.env): boolean {
+	const restricted =
+		env.N8N_BLOCK_FILE_ACCESS_TO_N8N_FILES === 'false'
+			? []
+			: [
+					join(env.N8N_USER_FOLDER ?? homedir(), '.n8n'),
+					...splitPaths(env.N8N_BINARY_DATA_STORAGE_PATH),
+					...splitPaths(env.N8N_CUSTOM_EXTENSIONS),
+				];
+	if (restricted.some((directory) => isWithin(directory, path))) return true;
+
+	const allowed = splitPaths(env.N8N_RESTRICT_FILE_ACCESS_TO);
+	return allowed.length > 0 && !allowed.some((directory) => isWithin(directory, path));
+}
+
+function splitPaths(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(';')
+		.map((path) => path.trim())
+		.filter(Boolean)
+		.map((path) => resolve(path));
+}
+
+function isWithin(directory: string, path: string): boolean {
+	const relativePath = relative(directory, path);
+	return relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath);
+}
+
+async function readSpecFile(path: string, validators: SpecValidators): Promise<SpecFetchResult> {
+	// Symlinks are resolved first so they cannot point around the restrictions.
+	if (isFilePathBlocked(await realpath(path))) {
+		throw new Error(`Access to the spec file "${path}" is not allowed`);
+	}
+	const stats = await stat(path);
+	const etag = `${stats.size}-${stats.mtimeMs}`;
+	if (validators.etag === etag) {
+		return { notModified: true };
+	}
+	const content = await readFile(path, 'utf-8');
+	return { notModified: false, content, etag };
+}
@@ -5,6 +5,21 @@ export type OpenApiOperation = OpenAPIV3.OperationObject | OpenAPIV3_1.Operation
 export type OpenApiSchema = OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
 export type OpenApiParameter = OpenAPIV3.ParameterObject | OpenAPIV3_1.ParameterObject;
 export type OpenApiRequestBody = OpenAPIV3.RequestBodyObject | OpenAPIV3_1.RequestBodyObject;
+export type OpenApiResponse = OpenAPIV3.ResponseObject | OpenAPIV3_1.ResponseObject;
+export type OpenApiServer = OpenAPIV3.ServerObject | OpenAPIV3_1.ServerObject;
+export type OpenApiEncoding = OpenAPIV3.EncodingObject | OpenAPIV3_1.EncodingObject;
+export type OpenApiSecurityScheme =
+	| OpenAPIV3.SecuritySchemeObject
+	| OpenAPIV3_1.SecuritySchemeObject;
+
+export type ParameterStyle =
+	| 'matrix'
+	| 'label'
+	| 'form'
+	| 'simple'
+	| 'spaceDelimited'
+	| 'pipeDelimited'
+	| 'deepObject';
 
 export type ParsedParameter = {
 	readonly name: string;
@@ -12,26 +27,71 @@ export type ParsedParameter = {
 	readonly required: boolean;
 	readonly schema: OpenApiSchema;
 	readonly description: string;
+	readonly style?: ParameterStyle;
+	readonly explode?: boolean;
+	readonly allowReserved?: boolean;
 };
 
-export type RequestBodyContentType =
-	| 'application/json'
-	| 'application/x-www-form-urlencoded'
-	| 'multipart/form-data'
-	| 'application/xml';
+/**
+ * Parameter values grouped by location, so a path `id` and a header `id`
+ * do not overwrite each other.
+ */
+export type ParameterValues = {
+	readonly [Location in ParsedParameter['in']]?: Record<string, unknown>;
+};
 
-export type ParsedRequestBody = {
-	readonly contentType: RequestBodyContentType;
+export type RequestBodyContent = {
+	readonly contentType: string;
 	readonly schema: OpenApiSchema;
+	readonly encoding?: Readonly<Record<string, OpenApiEncoding>>;
+};
+
+/**
+ * `contentType` and `schema` describe the preferred media type. `contents`
+ * lists every media type the operation accepts, in spec order.
+ */
+export type ParsedRequestBody = RequestBodyContent & {
 	readonly required: boolean;
+	readonly contents?: readonly RequestBodyContent[];
+};
+
+/**
+ * One documented response body. `statusCode` is kept as written in the spec,
+ * so it may be a range such as `2XX` or `default`.
+ */
+export type ParsedResponse = {
+	readonly statusCode: string;
+	readonly contentType: string | undefined;
+	readonly schema: OpenApiSchema | undefined;
 };
 
+/**
+ * `scheme` is undefined when the spec does not declare it, which makes the
+ * requirement impossible to satisfy.
+ */
+export type ParsedSecurityScheme = {
+	readonly name: string;
+	readonly scheme: OpenApiSecurityScheme | undefined;
+	readonly scopes: readonly string[];
+};
+
+/**
+ * All schemes in a requirement must be satisfied together. An empty
+ * requirement makes authentication optional.
+ */
+export type ParsedSecurityRequirement = readonly ParsedSecurityScheme[];
+
 export type ParsedOperation = {
 	readonly operationId: string;
-	readonly method: 'get' | 'post' | 'put' | 'patch' | 'delete';
+	readonly method: 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options' | 'trace';
 	readonly path: string;
 	readonly summary: string;
 	readonly description: string;
 	readonly parameters: readonly ParsedParameter[];
 	readonly requestBody: ParsedRequestBody | undefined;
+	readonly servers?: readonly OpenApiServer[];
+	readonly security?: readonly ParsedSecurityRequirement[];
+	readonly responses?: readonly ParsedResponse[];
+	readonly tags?: readonly string[];
+	readonly deprecated?: boolean;
 };
@@ -0,0 +1,353 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+const FORM_CONTENT_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+
+const ITEMS_PROPERTIES = [
+	'type',
+	'format',
+	'items',
+	'default',
+	'maximum',
+	'exclusiveMaximum',
+	'minimum',
+	'exclusiveMinimum',
+	'maxLength',
+	'minLength',
+	'pattern',
+	'maxItems',
+	'minItems',
+	'uniqueItems',
+	'enum',
+	'multipleOf',
+] as const;
+
+export function isSwagger2(document: unknown): document is OpenAPIV2.Document {
+	return (
+		typeof document === 'object' &&
+		document !== null &&
+		'swagger' in document &&
+		String((document as OpenAPIV2.Document).swagger).startsWith('2.')
+	);
+}
+
+// Expects a dereferenced document, so no $ref pointers need to be rewritten.
+export function upgradeSwagger(document: OpenAPIV2.Document): OpenAPIV3.Document {
+	const upgraded: OpenAPIV3.Document = {
+		openapi: '3.0.3',
+		info: document.info,
+		paths: {},
+	};
+
+	if (document.tags) upgraded.tags = document.tags;
+	if (document.externalDocs) upgraded.externalDocs = document.externalDocs;
+	if (document.security) upgraded.security = document.security;
+
+	const servers = upgradeServers(document);
+	if (servers.length > 0) upgraded.servers = servers;
+
+	const visited = new WeakSet<object>();
+	const components: OpenAPIV3.ComponentsObject = {};
+	if (document.definitions) {
+		components.schemas = Object.fromEntries(
+			Object.entries(document.definitions).map(([name, schema]) => [
+				name,
+				upgradeSchema(schema, visited),
+			]),
+		);
+	}
+	if (document.securityDefinitions) {
+		components.securitySchemes = Object.fromEntries(
+			Object.entries(document.securityDefinitions).map(([name, scheme]) => [
+				name,
+				upgradeSecurityScheme(scheme),
+			]),
+		);
+	}
+	if (Object.keys(components).length > 0) upgraded.components = components;
+
+	for (const [path, pathItem] of Object.entries(document.paths ?? {})) {
+		upgraded.paths[path] = upgradePathItem(document, pathItem, visited);
+	}
+
+	return upgraded;
+}
+
+function upgradeServers(document: OpenAPIV2.Document): OpenAPIV3.ServerObject[] {
+	const basePath = document.basePath ?? '';
+	if (!document.host) {
+		return basePath ? [{ url: basePath }] : [];
+	}
+	const schemes = document.schemes && document.schemes.length > 0 ? document.schemes : ['https'];
+	return schemes.map((scheme) => ({ url: `${scheme}://${document.host}${basePath}` }));
+}
+
+function upgradeSecurityScheme(
+	scheme: OpenAPIV2.SecuritySchemeObject,
+): OpenAPIV3.SecuritySchemeObject {
+	switch (scheme.type) {
+		case 'basic':
+			return { type: 'http', scheme: 'basic', description: scheme.description };
+		case 'apiKey':
+			return {
+				type: 'apiKey',
+				name: scheme.name,
+				in: scheme.in,
+				description: scheme.description,
+			};
+		case 'oauth2':
+			return { type: 'oauth2', flows: upgradeOAuthFlows(scheme), description: scheme.description };
+	}
+}
+
+function upgradeOAuthFlows(
+	scheme: OpenAPIV2.SecuritySchemeOauth2,
+): OpenAPIV3.OAuth2SecurityScheme['flows'] {
+	const scopes = scheme.scopes ?? {};
+	switch (scheme.flow) {
+		case 'implicit':
+			return { implicit: { authorizationUrl: scheme.authorizationUrl, scopes } };
+		case 'password':
+			return { password: { tokenUrl: scheme.tokenUrl, scopes } };
+		case 'application':
+			return { clientCredentials: { tokenUrl: scheme.tokenUrl, scopes } };
+		case 'accessCode':
+			return {
+				authorizationCode: {
+					authorizationUrl: scheme.authorizationUrl,
+					tokenUrl: scheme.tokenUrl,
+					scopes,
+				},
+			};
+	}
+}
+
+function upgradePathItem(
+	document: OpenAPIV2.Document,
+	pathItem: OpenAPIV2.PathItemObject,
+	visited: WeakSet<object>,
+): OpenAPIV3.PathItemObject {
+	const pathParameters = (pathItem.parameters ?? []) as OpenAPIV2.Parameter[];
+	const upgraded: OpenAPIV3.PathItemObject = {};
+
+	const sharedParameters = pathParameters.filter((p) => !isBodyOrFormData(p));
+	if (sharedParameters.length > 0) {
+		upgraded.parameters = sharedParameters.map((p) => upgradeParameter(p, visited));
+	}
+
+	for (const method of HTTP_METHODS) {
+		const operation = pathItem[method];
+		if (!operation) continue;
+
+		const operationParameters = (operation.parameters ?? []) as OpenAPIV2.Parameter[];
+		const bodyParameters = mergeParameters(
+			pathParameters.filter(isBodyOrFormData),
+			operationParameters.filter(isBodyOrFormData),
+		);
+		const consumes = operation.consumes ?? document.consumes ?? ['application/json'];
+		const produces = operation.produces ?? document.produces ?? ['application/json'];
+
+		const upgradedOperation: OpenAPIV3.OperationObject = {
+			tags: operation.tags,
+			summary: operation.summary,
+			description: operation.description,
+			externalDocs: operation.externalDocs,
+			operationId: operation.operationId,
+			deprecated: operation.deprecated,
+			security: operation.security,
+			responses: upgradeResponses(operation.responses, produces, visited),
+		};
+
+		const parameters = operationParameters
+			.filter((p) => !isBodyOrFormData(p))
+			.map((p) => upgradeParameter(p, visited));
+		if (parameters.length > 0) upgradedOperation.parameters = parameters;
+
+		const requestBody = upgradeRequestBody(bodyParameters, consumes, visited);
+		if (requestBody) upgradedOperation.requestBody = requestBody;
+
+		if (operation.schemes && operation.schemes.length > 0 && document.host) {
+			upgradedOperation.servers = operation.schemes.map((scheme) => ({
+				url: `${scheme}://${document.host}${document.basePath ?? ''}`,
+			}));
+		}
+
+		upgraded[method] = upgradedOperation;
+	}
+
+	return upgraded;
+}
+
+function isBodyOrFormData(parameter: OpenAPIV2.Parameter): boolean {
+	return parameter.in === 'body' || parameter.in === 'formData';
+}
+
+function mergeParameters(
+	pathParameters: OpenAPIV2.Parameter[],
+	operationParameters: OpenAPIV2.Parameter[],
+): OpenAPIV2.Parameter[] {
+	const overridden = (p: OpenAPIV2.Parameter) =>
+		operationParameters.some((o) => o.name === p.name && o.in === p.in);
+	return [...pathParameters.filter((p) => !overridden(p)), ...operationParameters];
+}
+
+function upgradeParameter(
+	parameter: OpenAPIV2.Parameter,
+	visited: WeakSet<object>,
+): OpenAPIV3.ParameterObject {
+	const upgraded: OpenAPIV3.ParameterObject = {
+		name: parameter.name,
+		in: parameter.in,
+		description: parameter.description,
+		required: parameter.in === 'path' ? true : parameter.required,
+		schema: upgradeSchema(itemsToSchema(parameter), visited),
+	};
+	if (parameter.allowEmptyValue !== undefined) {
+		upgraded.allowEmptyValue = parameter.allowEmptyValue;
+	}
+	if (parameter.type === 'array') {
+		Object.assign(upgraded, collectionFormatToStyle(parameter.collectionFormat, parameter.in));
+	}
+	return upgraded;
+}
+
+function collectionFormatToStyle(
+	collectionFormat: string | undefined,
+	location: string,
+): Pick<OpenAPIV3.ParameterObject, 'style' | 'explode'> {
+	switch (collectionFormat ?? 'csv') {
+		case 'multi':
+			return { style: 'form', explode: true };
+		case 'ssv':
+			return { style: 'spaceDelimited', explode: false };
+		case 'pipes':
+			return { style: 'pipeDelimited', explode: false };
+		case 'csv':
+		default:
+			return { style: location === 'query' ? 'form' : 'simple', explode: false };
+	}
+}
+
+function upgradeRequestBody(
+	parameters: OpenAPIV2.Parameter[],
+	consumes: string[],
+	visited: WeakSet<object>,
+): OpenAPIV3.RequestBodyObject | undefined {
+	const body = parameters.find((p) => p.in === 'body') as
+		| OpenAPIV2.InBodyParameterObject
+		| undefined;
+	if (body) {
+		const schema = upgradeSchema(body.schema, visited);
+		return {
+			description: body.description,
+			required: body.required,
+			content: Object.fromEntries(consumes.map((contentType) => [contentType, { schema }])),
+		};
+	}
+
+	const formData = parameters.filter((p) => p.in === 'formData');
+	if (formData.length === 0) return undefined;
+
+	const schema: OpenAPIV3.SchemaObject = {
+		type: 'object',
+		properties: Object.fromEntries(
+			formData.map((p) => [
+				p.name,
+				upgradeSchema({ ...itemsToSchema(p), description: p.description }, visited),
+			]),
+		),
+	};
+	const required = formData.filter((p) => p.required).map((p) => p.name);
+	if (required.length > 0) schema.required = required;
+
+	const hasFile = formData.some((p) => p.type === 'file');
+	let contentTypes = consumes.filter((contentType) => FORM_CONTENT_TYPES.includes(contentType));
+	if (contentTypes.length === 0) {
+		contentTypes = [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+	}
+
+	return {
+		required: required.length > 0,
+		content: Object.fromEntries(contentTypes.map((contentType) => [contentType, { schema }])),
+	};
+}
+
+function upgradeResponses(
+	responses: OpenAPIV2.ResponsesObject,
+	produces: string[],
+	visited: WeakSet<object>,
+): OpenAPIV3.ResponsesObject {
+	const upgraded: OpenAPIV3.ResponsesObject = {};
+
+	for (const [status, response] of Object.entries(responses ?? {})) {
+		if (!response || '$ref' in response) continue;
+
+		const upgradedResponse: OpenAPIV3.ResponseObject = { description: response.description };
+		if (response.schema) {
+			const schema = upgradeSchema(response.schema, visited);
+			upgradedResponse.content = Object.fromEntries(
+				produces.map((contentType) => [contentType, { schema }]),
+			);
+		}
+		if (response.headers) {
+			upgradedResponse.headers = Object.fromEntries(
+				Object.entries(response.headers).map(([name, header]) => [
+					name,
+					{
+						description: header.description,
+						schema: upgradeSchema(itemsToSchema(header), visited),
+					},
+				]),
+			);
+		}
+		upgraded[status] = upgradedResponse;
+	}
+
+	return upgraded;
+}
+
+function itemsToSchema(items: OpenAPIV2.ItemsObject | OpenAPIV2.Parameter): OpenAPIV2.SchemaObject {
+	const schema: OpenAPIV2.SchemaObject = {};
+	for (const property of ITEMS_PROPERTIES) {
+		if (items[property] !== undefined) {
+			schema[property] = items[property];
+		}
+	}
+	return schema;
+}
+
+// Swagger 2.0 schemas are a subset of OpenAPI 3.0 schemas except for the
+// `file` type and the string-valued `discriminator`.
+function upgradeSchema(
+	schema: OpenAPIV2.Schema | OpenAPIV2.ItemsObject,
+	visited: WeakSet<object>,
+): OpenAPIV3.SchemaObject {
+	const result = schema as Record<string, unknown>;
+	if (visited.has(result)) {
+		return result as OpenAPIV3.SchemaObject;
+	}
+	visited.add(result);
+
+	if (result.type === 'file') {
+		result.type = 'string';
+		result.format = 'binary';
+	}
+	if (typeof result.discriminator === 'string') {
+		result.discriminator = { propertyName: result.discriminator };
+	}
+	if (result.items && typeof result.items === 'object') {
+		upgradeSchema(result.items as OpenAPIV2.Schema, visited);
+	}
+	if (result.additionalProperties && typeof result.additionalProperties === 'object') {
+		upgradeSchema(result.additionalProperties as OpenAPIV2.Schema, visited);
+	}
+	for (const property of Object.values((result.properties ?? {}) as Record<string, object>)) {
+		upgradeSchema(property as OpenAPIV2.Schema, visited);
+	}
+	for (const member of (result.allOf ?? []) as OpenAPIV2.Schema[]) {
+		upgradeSchema(member, visited);
+	}
+
+	return result as OpenAPIV3.SchemaObject;
+}
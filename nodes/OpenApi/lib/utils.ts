@@ -0,0 +1,59 @@
+import type { OpenApiSchema } from './types';
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isEmpty(value: unknown): boolean {
+	return value === undefined || value === null || value === '';
+}
+
+/**
+ * The schema's type, ignoring `null` in OpenAPI 3.1 type lists. Schemas with
+ * properties but no type are treated as objects.
+ */
+export function getSchemaType(schema: OpenApiSchema): string | undefined {
+	if (schema.type) {
+		return Array.isArray(schema.type) ? schema.type.find((t) => t !== 'null') : schema.type;
+	}
+	return schema.properties ? 'object' : undefined;
+}
+
+/**
+ * Reads a dot path such as `error.message`. A key that contains dots itself,
+ * such as `@odata.nextLink`, is matched first.
+ */
+export function getValueAtPath(value: unknown, path: string): unknown {
+	if (isObject(value) && path in value) {
+		return value[path];
+	}
+	let current = value;
+	for (const segment of path.split('.')) {
+		if (!isObject(current)) return undefined;
+		current = current[segment];
+	}
+	return current;
+}
+
+// Turns `petId` into `Pet Id` for field labels.
+export function toDisplayName(name: string): string {
+	return name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, (c) => c.toUpperCase());
+}
+
+export function parseJson(text: string, fallback: unknown): unknown {
+	try {
+		return JSON.parse(text);
+	} catch {
+		return fallback;
+	}
+}
+
+// Array values may come from an expression or as JSON text.
+export function parseArray(value: unknown): unknown[] | undefined {
+	if (Array.isArray(value)) return value;
+	if (typeof value === 'string' && value.trim().startsWith('[')) {
+		const parsed = parseJson(value, undefined);
+		if (Array.isArray(parsed)) return parsed;
+	}
+	return undefined;
+}
@@ -0,0 +1,78 @@
+import type { BodyData } from './buildRequestOptions';
+import { getBodyFormat, getRequestBodyContent, isBinaryBody } from './requestBody';
+import { normalizeValue } from './serializeParameter';
+import type { ParameterValues, ParsedOperation, ParsedParameter } from './types';
+import { isEmpty } from './utils';
+import { formatViolation, validateSchema } from './validateSchema';
+
+/**
+ * Checks parameter values and the request body against the operation's
+ * schemas and returns one message per violation.
+ */
+export function validateRequest(
+	operation: ParsedOperation,
+	params: ParameterValues,
+	bodyData: BodyData,
+): string[] {
+	return [...validateParameters(operation, params), ...validateBody(operation, bodyData)];
+}
+
+function validateParameters(operation: ParsedOperation, params: ParameterValues): string[] {
+	const errors: string[] = [];
+
+	for (const param of operation.parameters) {
+		const field = `${capitalize(param.in)} parameter "${param.name}"`;
+		const value = params[param.in]?.[param.name];
+		if (isEmpty(value)) {
+			if (param.required) errors.push(`${field} is required`);
+			continue;
+		}
+		const violations = validateSchema(param.schema, toSchemaValue(param, value), {
+			coerceStrings: true,
+		});
+		errors.push(...violations.map((v) => formatViolation(field, v)));
+	}
+
+	// Path templates can reference parameters the spec forgot to declare.
+	for (const [, name] of operation.path.matchAll(/\{([^}]+)\}/g)) {
+		const declared = operation.parameters.some((p) => p.in === 'path' && p.name === name);
+		if (!declared && isEmpty(params.path?.[name])) {
+			errors.push(`Path parameter "${name}" is required`);
+		}
+	}
+
+	return errors;
+}
+
+function validateBody(operation: ParsedOperation, bodyData: BodyData): string[] {
+	const requestBody = operation.requestBody;
+	if (!requestBody || !bodyData.contentType) return [];
+
+	const { data } = bodyData;
+	if (isBinaryBody(data)) return [];
+	const empty = typeof data === 'string' ? data.trim() === '' : Object.keys(data).length === 0;
+	if (empty) {
+		return requestBody.required ? ['Request body is required'] : [];
+	}
+	if (typeof data === 'string') return [];
+
+	const { schema } = getRequestBodyContent(requestBody, bodyData.contentType);
+	const isForm = getBodyFormat(bodyData.contentType) !== 'json';
+	// Multipart file fields are filled from binary data, not from the form values.
+	const binaryFields = Object.keys(bodyData.files ?? {});
+	const violations = validateSchema(schema, data, {
+		direction: 'request',
+		coerceStrings: isForm,
+	}).filter((v) => !(v.keyword === 'required' && binaryFields.includes(v.path.slice(1))));
+
+	return violations.map((v) => formatViolation('Request body', v));
+}
+
+function toSchemaValue(param: ParsedParameter, value: unknown): unknown {
+	const type = Array.isArray(param.schema.type) ? param.schema.type[0] : param.schema.type;
+	return type === 'array' || type === 'object' ? normalizeValue(param.schema, value) : value;
+}
+
+function capitalize(value: string): string {
+	return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -0,0 +1,92 @@
+import { getBodyFormat } from './requestBody';
+import type { OpenApiSchema, ParsedOperation, ParsedResponse } from './types';
+import { validateSchema, type SchemaViolation } from './validateSchema';
+
+/**
+ * Picks the documented response for a status code, preferring an exact code
+ * over a range (`2XX`) over `default`.
+ */
+export function findResponses(
+	operation: ParsedOperation,
+	statusCode: number,
+): readonly ParsedResponse[] {
+	const responses = operation.responses ?? [];
+	const candidates = [String(statusCode), `${String(statusCode).charAt(0)}XX`, 'default'];
+	for (const candidate of candidates) {
+		const matches = responses.filter((r) => r.statusCode.toUpperCase() === candidate.toUpperCase());
+		if (matches.length > 0) return matches;
+	}
+	return [];
+}
+
+/** The documented schema for a response, if its media type is documented. */
+export function findResponseSchema(
+	operation: ParsedOperation,
+	statusCode: number,
+	contentType: string | undefined,
+): OpenApiSchema | undefined {
+	const documented = findResponses(operation, statusCode).filter(
+		(r) => r.contentType !== undefined,
+	);
+	const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+	const response = mediaType ? matchMediaType(documented, mediaType) : documented[0];
+	return response?.schema;
+}
+
+export function validateResponse(
+	operation: ParsedOperation,
+	statusCode: number,
+	contentType: string | undefined,
+	body: unknown,
+): SchemaViolation[] {
+	if (!operation.responses || operation.responses.length === 0) return [];
+
+	const responses = findResponses(operation, statusCode);
+	if (responses.length === 0) {
+		return [{ path: '', keyword: 'status', message: `status ${statusCode} is not documented` }];
+	}
+
+	const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+	const documented = responses.filter((r) => r.contentType !== undefined);
+	if (documented.length === 0) return [];
+
+	const response = mediaType ? matchMediaType(documented, mediaType) : documented[0];
+	if (!response) {
+		return [
+			{
+				path: '',
+				keyword: 'contentType',
+				message: `content type ${mediaType} is not documented for status ${statusCode}`,
+			},
+		];
+	}
+
+	// HEAD responses have no body to check.
+	if (operation.method === 'head') return [];
+
+	// Only JSON and XML bodies arrive parsed, so other media types cannot be checked.
+	const format = getBodyFormat(mediaType ?? response.contentType ?? '');
+	if (format !== 'json' && !(format === 'xml' && typeof body !== 'string')) return [];
+
+	return validateSchema(response.schema, body, { direction: 'response' });
+}
+
+function matchMediaType(
+	responses: readonly ParsedResponse[],
+	mediaType: string,
+): ParsedResponse | undefined {
+	const [type] = mediaType.split('/');
+	const normalized = (r: ParsedResponse) => r.contentType?.split(';')[0].trim().toLowerCase();
+	return (
+		responses.find((r) => normalized(r) === mediaType) ??
+		responses.find((r) => normalized(r) === `${type}/*`) ??
+		responses.find((r) => normalized(r) === '*/*') ??
+		(isJsonMediaType(mediaType)
+			? responses.find((r) => isJsonMediaType(normalized(r) ?? ''))
+			: undefined)
+	);
+}
+
+function isJsonMediaType(mediaType: string): boolean {
+	return /^application\/(.+\+)?json$/i.test(mediaType.split(';')[0].trim());
+}
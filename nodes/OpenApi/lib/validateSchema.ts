@@ -0,0 +1,323 @@
+import { getSchemaVariants } from './composeSchema';
+import type { OpenApiSchema } from './types';
+import { isObject } from './utils';
+
+export type SchemaViolation = {
+	/** JSON pointer to the offending value, relative to the validated root. */
+	readonly path: string;
+	readonly keyword: string;
+	readonly message: string;
+};
+
+export type ValidateSchemaOptions = {
+	/** Skip `readOnly` properties in requests and `writeOnly` properties in responses. */
+	readonly direction?: 'request' | 'response';
+	/** Accept strings that parse as the schema's number, integer or boolean type. */
+	readonly coerceStrings?: boolean;
+};
+
+type Schema = OpenApiSchema & {
+	const?: unknown;
+	items?: unknown;
+	exclusiveMinimum?: boolean | number;
+	exclusiveMaximum?: boolean | number;
+	discriminator?: { propertyName: string };
+};
+
+export function validateSchema(
+	schema: OpenApiSchema | undefined,
+	value: unknown,
+	options: ValidateSchemaOptions = {},
+	path = '',
+): SchemaViolation[] {
+	if (!schema || typeof schema !== 'object') return [];
+	const s = schema as Schema;
+	const violations: SchemaViolation[] = [];
+	const fail = (keyword: string, message: string) => violations.push({ path, keyword, message });
+
+	if (value === null) {
+		if (!allowsNull(s)) fail('type', `must be ${describeTypes(getTypes(s))}`);
+		return violations;
+	}
+
+	const types = getTypes(s);
+	const typed = options.coerceStrings ? coerce(value, types) : value;
+	if (types.length > 0 && !types.some((type) => matchesType(type, typed))) {
+		fail('type', `must be ${describeTypes(types)}`);
+		return violations;
+	}
+
+	if (s.enum && !s.enum.some((allowed) => isEqual(allowed, typed))) {
+		fail('enum', `must be one of ${s.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+	}
+	if ('const' in s && !isEqual(s.const, typed)) {
+		fail('const', `must be ${JSON.stringify(s.const)}`);
+	}
+
+	if (typeof typed === 'string') {
+		validateString(s, typed, fail);
+	} else if (typeof typed === 'number') {
+		validateNumber(s, typed, fail);
+	} else if (Array.isArray(typed)) {
+		if (s.minItems !== undefined && typed.length < s.minItems) {
+			fail('minItems', `must have at least ${s.minItems} items`);
+		}
+		if (s.maxItems !== undefined && typed.length > s.maxItems) {
+			fail('maxItems', `must have at most ${s.maxItems} items`);
+		}
+		if (s.uniqueItems && typed.some((v, i) => typed.findIndex((o) => isEqual(o, v)) !== i)) {
+			fail('uniqueItems', 'must not contain duplicate items');
+		}
+		if (s.items && typeof s.items === 'object') {
+			typed.forEach((item, index) => {
+				violations.push(
+					...validateSchema(s.items as OpenApiSchema, item, options, `${path}/${index}`),
+				);
+			});
+		}
+	} else if (isObject(typed)) {
+		violations.push(...validateObject(s, typed, options, path));
+	}
+
+	for (const member of (s.allOf ?? []) as OpenApiSchema[]) {
+		violations.push(...validateSchema(member, value, options, path));
+	}
+	const members = (s.oneOf ?? s.anyOf) as OpenApiSchema[] | undefined;
+	const propertyName = s.discriminator?.propertyName;
+	if (members && propertyName && isObject(value) && value[propertyName] !== undefined) {
+		violations.push(...validateDiscriminated(s, members, value, options, path));
+		return violations;
+	}
+	if (s.anyOf && !s.anyOf.some((m) => isValid(m as OpenApiSchema, value, options))) {
+		fail('anyOf', 'must match at least one of the allowed schemas');
+	}
+	if (s.oneOf) {
+		const matches = s.oneOf.filter((m) => isValid(m as OpenApiSchema, value, options)).length;
+		if (matches !== 1) {
+			fail('oneOf', 'must match exactly one of the allowed schemas');
+		}
+	}
+
+	return violations;
+}
+
+export function formatViolation(field: string, violation: SchemaViolation): string {
+	const location = violation.path ? `${field} at ${violation.path}` : field;
+	return `${location} ${violation.message} (${violation.keyword})`;
+}
+
+function validateString(
+	s: Schema,
+	value: string,
+	fail: (keyword: string, message: string) => void,
+): void {
+	const length = [...value].length;
+	if (s.minLength !== undefined && length < s.minLength) {
+		fail('minLength', `must be at least ${s.minLength} characters`);
+	}
+	if (s.maxLength !== undefined && length > s.maxLength) {
+		fail('maxLength', `must be at most ${s.maxLength} characters`);
+	}
+	const pattern = s.pattern !== undefined ? safeRegExp(s.pattern) : undefined;
+	if (pattern && !pattern.test(value)) {
+		fail('pattern', `must match pattern ${s.pattern}`);
+	}
+}
+
+function validateNumber(
+	s: Schema,
+	value: number,
+	fail: (keyword: string, message: string) => void,
+): void {
+	// OpenAPI 3.0 uses boolean exclusive flags; 3.1 (JSON Schema) uses numbers.
+	if (s.minimum !== undefined) {
+		if (s.exclusiveMinimum === true ? value <= s.minimum : value < s.minimum) {
+			const operator = s.exclusiveMinimum === true ? '>' : '>=';
+			fail('minimum', `must be ${operator} ${s.minimum}`);
+		}
+	}
+	if (typeof s.exclusiveMinimum === 'number' && value <= s.exclusiveMinimum) {
+		fail('exclusiveMinimum', `must be > ${s.exclusiveMinimum}`);
+	}
+	if (s.maximum !== undefined) {
+		if (s.exclusiveMaximum === true ? value >= s.maximum : value > s.maximum) {
+			const operator = s.exclusiveMaximum === true ? '<' : '<=';
+			fail('maximum', `must be ${operator} ${s.maximum}`);
+		}
+	}
+	if (typeof s.exclusiveMaximum === 'number' && value >= s.exclusiveMaximum) {
+		fail('exclusiveMaximum', `must be < ${s.exclusiveMaximum}`);
+	}
+	if (s.multipleOf !== undefined && !Number.isInteger(Number((value / s.multipleOf).toFixed(10)))) {
+		fail('multipleOf', `must be a multiple of ${s.multipleOf}`);
+	}
+}
+
+function validateObject(
+	s: Schema,
+	value: Record<string, unknown>,
+	options: ValidateSchemaOptions,
+	path: string,
+): SchemaViolation[] {
+	const violations: SchemaViolation[] = [];
+	const properties = (s.properties ?? {}) as Record<string, OpenApiSchema>;
+
+	for (const name of s.required ?? []) {
+		if (value[name] !== undefined || isSkipped(properties[name], options)) continue;
+		violations.push({
+			path: `${path}/${escapePointer(name)}`,
+			keyword: 'required',
+			message: 'is required',
+		});
+	}
+
+	const count = Object.keys(value).length;
+	if (s.minProperties !== undefined && count < s.minProperties) {
+		violations.push({
+			path,
+			keyword: 'minProperties',
+			message: `must have at least ${s.minProperties} properties`,
+		});
+	}
+	if (s.maxProperties !== undefined && count > s.maxProperties) {
+		violations.push({
+			path,
+			keyword: 'maxProperties',
+			message: `must have at most ${s.maxProperties} properties`,
+		});
+	}
+
+	for (const [name, propertyValue] of Object.entries(value)) {
+		if (propertyValue === undefined) continue;
+		const propertyPath = `${path}/${escapePointer(name)}`;
+		const propertySchema = properties[name];
+		if (propertySchema) {
+			violations.push(...validateSchema(propertySchema, propertyValue, options, propertyPath));
+		} else if (s.additionalProperties === false) {
+			violations.push({
+				path: propertyPath,
+				keyword: 'additionalProperties',
+				message: 'is not an allowed property',
+			});
+		} else if (typeof s.additionalProperties === 'object') {
+			violations.push(
+				...validateSchema(
+					s.additionalProperties as OpenApiSchema,
+					propertyValue,
+					options,
+					propertyPath,
+				),
+			);
+		}
+	}
+
+	return violations;
+}
+
+// The discriminator value picks the member, so alternatives that also happen
+// to accept the value do not make it ambiguous.
+function validateDiscriminated(
+	s: Schema,
+	members: readonly OpenApiSchema[],
+	value: Record<string, unknown>,
+	options: ValidateSchemaOptions,
+	path: string,
+): SchemaViolation[] {
+	const propertyName = s.discriminator!.propertyName;
+	const variants = getSchemaVariants(s);
+	const index = variants.findIndex(
+		(variant) => variant.discriminator?.value === String(value[propertyName]),
+	);
+	if (index === -1) {
+		const allowed = variants.flatMap((variant) =>
+			variant.discriminator ? [JSON.stringify(variant.discriminator.value)] : [],
+		);
+		return [
+			{
+				path: `${path}/${escapePointer(propertyName)}`,
+				keyword: 'discriminator',
+				message: `must be one of ${allowed.join(', ')}`,
+			},
+		];
+	}
+	return validateSchema(members[index], value, options, path);
+}
+
+function isSkipped(schema: OpenApiSchema | undefined, options: ValidateSchemaOptions): boolean {
+	if (!schema) return false;
+	return (
+		(options.direction === 'request' && schema.readOnly === true) ||
+		(options.direction === 'response' && schema.writeOnly === true)
+	);
+}
+
+function isValid(schema: OpenApiSchema, value: unknown, options: ValidateSchemaOptions): boolean {
+	return validateSchema(schema, value, options).length === 0;
+}
+
+function getTypes(s: Schema): string[] {
+	if (Array.isArray(s.type)) return s.type.filter((type) => type !== 'null');
+	return s.type ? [s.type] : [];
+}
+
+function allowsNull(s: Schema): boolean {
+	if (getTypes(s).length === 0 && !s.enum) return true;
+	if ((s as { nullable?: boolean }).nullable) return true;
+	if (Array.isArray(s.type) && s.type.includes('null')) return true;
+	return s.enum?.includes(null) ?? false;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+	switch (type) {
+		case 'string':
+			return typeof value === 'string';
+		case 'integer':
+			return typeof value === 'number' && Number.isInteger(value);
+		case 'number':
+			return typeof value === 'number' && Number.isFinite(value);
+		case 'boolean':
+			return typeof value === 'boolean';
+		case 'array':
+			return Array.isArray(value);
+		case 'object':
+			return isObject(value);
+		default:
+			return true;
+	}
+}
+
+function coerce(value: unknown, types: readonly string[]): unknown {
+	if (typeof value !== 'string' || types.includes('string')) return value;
+	const trimmed = value.trim();
+	if ((types.includes('number') || types.includes('integer')) && trimmed !== '') {
+		const number = Number(trimmed);
+		if (!Number.isNaN(number)) return number;
+	}
+	if (types.includes('boolean') && (trimmed === 'true' || trimmed === 'false')) {
+		return trimmed === 'true';
+	}
+	return value;
+}
+
+function describeTypes(types: readonly string[]): string {
+	if (types.length === 0) return 'a value';
+	return types.map((type) => (type === 'integer' ? 'an integer' : `a ${type}`)).join(' or ');
+}
+
+function safeRegExp(pattern: string): RegExp | undefined {
+	try {
+		return new RegExp(pattern, 'u');
+	} catch {
+		return undefined;
+	}
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(segment: string): string {
+	return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
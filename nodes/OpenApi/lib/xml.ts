@@ -0,0 +1,269 @@
+import { mergeAllOf } from './composeSchema';
+import type { OpenApiSchema } from './types';
+import { getSchemaType, isObject } from './utils';
+
+export type XmlElement = {
+	readonly name: string;
+	readonly attributes: Record<string, string>;
+	readonly children: XmlElement[];
+	text: string;
+};
+
+type XmlObject = {
+	name?: string;
+	namespace?: string;
+	prefix?: string;
+	attribute?: boolean;
+	wrapped?: boolean;
+};
+
+const TAG = /<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+/**
+ * Serializes a value as XML following the schema's `xml` objects: `name`
+ * renames elements, `attribute` turns properties into attributes,
+ * `namespace` and `prefix` qualify names and `wrapped` wraps arrays.
+ */
+export function buildXml(schema: OpenApiSchema, value: unknown): string {
+	const merged = mergeAllOf(schema);
+	const xml = getXml(merged);
+	const name = xml.name ?? merged.title ?? 'root';
+	const root = Array.isArray(value)
+		? buildElement(name, { ...merged, xml: { ...xml, wrapped: true } } as OpenApiSchema, value)
+		: buildElement(name, merged, value);
+	return `<?xml version="1.0" encoding="UTF-8"?>\n${root}`;
+}
+
+function buildElement(name: string, schema: OpenApiSchema, value: unknown): string {
+	const merged = mergeAllOf(schema);
+	const xml = getXml(merged);
+	const tag = qualify(xml.name ?? name, xml);
+	const namespace = getNamespaceAttribute(xml);
+
+	if (Array.isArray(value)) {
+		const itemSchema = getItems(merged);
+		const items = value.map((item) => buildElement(name, itemSchema, item)).join('');
+		return xml.wrapped ? `<${tag}${namespace}>${items}</${tag}>` : items;
+	}
+
+	if (isObject(value)) {
+		const properties = (merged.properties ?? {}) as Record<string, OpenApiSchema>;
+		let attributes = '';
+		let children = '';
+		for (const [key, propertyValue] of Object.entries(value)) {
+			if (propertyValue === undefined || propertyValue === null) continue;
+			const property = mergeAllOf(properties[key] ?? {});
+			const propertyXml = getXml(property);
+			if (propertyXml.attribute && !isObject(propertyValue)) {
+				const attributeName = qualify(propertyXml.name ?? key, propertyXml);
+				attributes += ` ${attributeName}="${escapeXml(String(propertyValue))}"`;
+			} else {
+				children += buildElement(key, property, propertyValue);
+			}
+		}
+		return children
+			? `<${tag}${namespace}${attributes}>${children}</${tag}>`
+			: `<${tag}${namespace}${attributes}/>`;
+	}
+
+	if (value === undefined || value === null) return `<${tag}${namespace}/>`;
+	return `<${tag}${namespace}>${escapeXml(String(value))}</${tag}>`;
+}
+
+/** Parses an XML document into its root element. Throws on malformed XML. */
+export function parseXml(text: string): XmlElement {
+	const document: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+	const stack = [document];
+	let index = 0;
+
+	const skipTo = (terminator: string, from: number) => {
+		const end = text.indexOf(terminator, from);
+		if (end === -1) throw new Error(`Malformed XML: missing "${terminator}"`);
+		return end + terminator.length;
+	};
+
+	while (index < text.length) {
+		const current = stack[stack.length - 1];
+		const start = text.indexOf('<', index);
+		if (start === -1) {
+			current.text += decodeEntities(text.slice(index));
+			break;
+		}
+		current.text += decodeEntities(text.slice(index, start));
+
+		if (text.startsWith('<!--', start)) {
+			index = skipTo('-->', start);
+		} else if (text.startsWith('<![CDATA[', start)) {
+			index = skipTo(']]>', start);
+			current.text += text.slice(start + 9, index - 3);
+		} else if (text.startsWith('<?', start)) {
+			index = skipTo('?>', start);
+		} else if (text.startsWith('<!', start)) {
+			const bracket = text.indexOf('[', start);
+			const close = text.indexOf('>', start);
+			index = bracket !== -1 && bracket < close ? skipTo(']>', bracket) : skipTo('>', start);
+		} else if (text.startsWith('</', start)) {
+			index = skipTo('>', start);
+			const name = text.slice(start + 2, index - 1).trim();
+			if (stack.length === 1 || current.name !== name) {
+				throw new Error(`Malformed XML: unexpected closing tag "${name}"`);
+			}
+			stack.pop();
+		} else {
+			TAG.lastIndex = start;
+			const match = TAG.exec(text);
+			if (!match) throw new Error('Malformed XML: invalid tag');
+			const element: XmlElement = {
+				name: match[1],
+				attributes: parseAttributes(match[2]),
+				children: [],
+				text: '',
+			};
+			current.children.push(element);
+			if (!match[3]) stack.push(element);
+			index = TAG.lastIndex;
+		}
+	}
+
+	if (stack.length !== 1 || document.children.length !== 1) {
+		throw new Error('Malformed XML: expected a single root element');
+	}
+	return document.children[0];
+}
+
+/**
+ * Converts a parsed element to JSON, guided by the schema's `xml` objects.
+ * Values are coerced to the schema's types. Without a schema, repeated
+ * elements become arrays and text-only elements become strings.
+ */
+export function xmlToJson(element: XmlElement, schema?: OpenApiSchema): unknown {
+	const merged = schema ? mergeAllOf(schema) : undefined;
+	const type = merged ? getSchemaType(merged) : undefined;
+
+	if (merged && type === 'array') {
+		return element.children.map((child) => xmlToJson(child, getItems(merged)));
+	}
+
+	const text = element.text.trim();
+	const attributes = Object.entries(element.attributes).filter(
+		([name]) => name !== 'xmlns' && !name.startsWith('xmlns:'),
+	);
+	if (type !== 'object' && element.children.length === 0 && attributes.length === 0) {
+		return coerce(text, merged);
+	}
+
+	const properties = Object.entries(
+		(merged?.properties ?? {}) as Record<string, OpenApiSchema>,
+	).map(([key, property]) => [key, mergeAllOf(property)] as const);
+	const result: Record<string, unknown> = {};
+
+	for (const [name, value] of attributes) {
+		const match = properties.find(
+			([key, property]) =>
+				getXml(property).attribute && (getXml(property).name ?? key) === localName(name),
+		);
+		result[match?.[0] ?? localName(name)] = match ? coerce(value, match[1]) : value;
+	}
+
+	for (const child of element.children) {
+		const childName = localName(child.name);
+		const match = properties.find(([key, property]) => {
+			const xml = getXml(property);
+			if (xml.attribute) return false;
+			if (getSchemaType(property) === 'array' && !xml.wrapped) {
+				return (getXml(getItems(property)).name ?? key) === childName;
+			}
+			return (xml.name ?? key) === childName;
+		});
+
+		if (!match) {
+			addValue(result, childName, xmlToJson(child));
+			continue;
+		}
+		const [key, property] = match;
+		if (getSchemaType(property) === 'array' && !getXml(property).wrapped) {
+			result[key] = [...((result[key] as unknown[]) ?? []), xmlToJson(child, getItems(property))];
+		} else {
+			result[key] = xmlToJson(child, property);
+		}
+	}
+
+	if (text && element.children.length === 0) {
+		result['#text'] = coerce(text, undefined);
+	}
+	return result;
+}
+
+function addValue(target: Record<string, unknown>, key: string, value: unknown) {
+	if (!(key in target)) {
+		target[key] = value;
+	} else if (Array.isArray(target[key])) {
+		(target[key] as unknown[]).push(value);
+	} else {
+		target[key] = [target[key], value];
+	}
+}
+
+function coerce(text: string, schema: OpenApiSchema | undefined): unknown {
+	switch (schema ? getSchemaType(schema) : undefined) {
+		case 'integer':
+		case 'number':
+			return text !== '' && !Number.isNaN(Number(text)) ? Number(text) : text;
+		case 'boolean':
+			return text === 'true' ? true : text === 'false' ? false : text;
+		default:
+			return text;
+	}
+}
+
+function parseAttributes(source: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	for (const [, name, doubleQuoted, singleQuoted] of source.matchAll(ATTRIBUTE)) {
+		attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? '');
+	}
+	return attributes;
+}
+
+function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+		if (code.startsWith('#x') || code.startsWith('#X')) {
+			return String.fromCodePoint(parseInt(code.slice(2), 16));
+		}
+		if (code.startsWith('#')) return String.fromCodePoint(Number(code.slice(1)));
+		return ENTITIES[code] ?? entity;
+	});
+}
+
+function escapeXml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&apos;');
+}
+
+function qualify(name: string, xml: XmlObject): string {
+	return xml.prefix ? `${xml.prefix}:${name}` : name;
+}
+
+function getNamespaceAttribute(xml: XmlObject): string {
+	if (!xml.namespace) return '';
+	return xml.prefix
+		? ` xmlns:${xml.prefix}="${escapeXml(xml.namespace)}"`
+		: ` xmlns="${escapeXml(xml.namespace)}"`;
+}
+
+function localName(name: string): string {
+	return name.slice(name.indexOf(':') + 1);
+}
+
+function getXml(schema: OpenApiSchema): XmlObject {
+	return (schema.xml ?? {}) as XmlObject;
+}
+
+function getItems(schema: OpenApiSchema): OpenApiSchema {
+	return ((schema as { items?: OpenApiSchema }).items ?? {}) as OpenApiSchema;
+}
@@ -0,0 +1,150 @@
+import { Buffer } from 'node:buffer';
+import { describe, it, expect, vi } from 'vitest';
+import type {
+	ICredentialDataDecryptedObject,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+} from 'n8n-workflow';
+import { OpenApi } from '../nodes/OpenApi/OpenApi.node';
+
+const spec = {
+	openapi: '3.0.3',
+	info: { title: 'Methods', version: '1.0.0' },
+	paths: {
+		'/pets': {
+			post: {
+				operationId: 'createPet',
+				requestBody: {
+					content: {
+						'application/x-www-form-urlencoded': {
+							schema: { properties: { name: { type: 'string' } }, required: ['name'] },
+						},
+					},
+				},
+				responses: { '201': { description: 'Created' } },
+			},
+		},
+		'/pets/{petId}': {
+			parameters: [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }],
+			head: {
+				operationId: 'petExists',
+				responses: {
+					'200': {
+						description: 'OK',
+						content: { 'application/json': { schema: { type: 'object' } } },
+					},
+				},
+			},
+			options: { operationId: 'petOptions', responses: { '204': { description: 'OK' } } },
+			trace: { operationId: 'tracePet', responses: { '200': { description: 'OK' } } },
+		},
+	},
+};
+
+const credentials: ICredentialDataDecryptedObject = {
+	specSource: 'text',
+	specContent: JSON.stringify(spec),
+	baseUrlOverride: 'https://api.example.com',
+	authType: 'none',
+};
+
+function execute(
+	operation: string,
+	response: { statusCode: number; headers: Record<string, string> },
+	extraParameters: Record<string, unknown> = {},
+) {
+	const httpRequest = vi.fn<IExecuteFunctions['helpers']['httpRequest']>(async () => ({
+		...response,
+		body: Buffer.alloc(0),
+	}));
+	const parameters: Record<string, unknown> = {
+		operation,
+		'pathParameters.value': { petId: '42' },
+		validateResponse: 'flag',
+		...extraParameters,
+	};
+	const helpers: Partial<IExecuteFunctions['helpers']> = { httpRequest };
+	const context: Partial<IExecuteFunctions> = {
+		getInputData: () => [{ json: {} }],
+		getCredentials: async <T extends object = ICredentialDataDecryptedObject>() => credentials as T,
+		getNodeParameter: ((name: string, _itemIndex: number, fallback?: unknown) =>
+			name in parameters ? parameters[name] : fallback) as IExecuteFunctions['getNodeParameter'],
+		getNode: () => ({
+			id: 'openapi',
+			name: 'OpenAPI',
+			type: 'n8n-nodes-openapi.openApi',
+			typeVersion: 1,
+			position: [0, 0],
+			parameters: {},
+		}),
+		continueOnFail: () => false,
+		helpers: helpers as IExecuteFunctions['helpers'],
+	};
+
+	return { httpRequest, output: new OpenApi().execute.call(context as IExecuteFunctions) };
+}
+
+describe('OpenApi node', () => {
+	it('outputs the status and headers of HEAD responses', async () => {
+		const { httpRequest, output } = execute('petExists', {
+			statusCode: 200,
+			headers: { 'content-type': 'application/json', etag: '"v3"', 'content-length': '512' },
+		});
+
+		expect(await output).toEqual([
+			[
+				{
+					json: {
+						statusCode: 200,
+						headers: { 'content-type': 'application/json', etag: '"v3"', 'content-length': '512' },
+					},
+				},
+			],
+		]);
+		expect(httpRequest).toHaveBeenCalledTimes(1);
+		expect(httpRequest.mock.calls[0][0]).toMatchObject({
+			method: 'HEAD',
+			url: 'https://api.example.com/pets/42',
+		});
+	});
+
+	it.each([
+		['petOptions', 'OPTIONS'],
+		['tracePet', 'TRACE'],
+	])('sends %s as an %s request', async (operation, method) => {
+		const { httpRequest, output } = execute(operation, { statusCode: 200, headers: {} });
+
+		await output;
+		expect(httpRequest.mock.calls[0][0].method).toBe(method);
+	});
+
+	it('does not retry failed requests unless retries are turned on', async () => {
+		const failing = { statusCode: 503, headers: {} };
+		const withoutRetry = execute('petExists', failing, { neverError: true });
+		const withRetry = execute('petExists', failing, {
+			neverError: true,
+			retryEnabled: true,
+			retry: { maxAttempts: 2, baseDelay: 0, jitter: 0 },
+		});
+
+		await withoutRetry.output;
+		await withRetry.output;
+		expect(withoutRetry.httpRequest).toHaveBeenCalledTimes(1);
+		expect(withRetry.httpRequest).toHaveBeenCalledTimes(2);
+	});
+
+	it('offers form fields for schemas that declare properties without a type', async () => {
+		const context: Partial<ILoadOptionsFunctions> = {
+			getCredentials: async <T extends object = ICredentialDataDecryptedObject>() =>
+				credentials as T,
+			getNodeParameter: ((name: string, fallback?: unknown) =>
+				name === 'operation' ? 'createPet' : fallback) as ILoadOptionsFunctions['getNodeParameter'],
+		};
+
+		const { fields } = await new OpenApi().methods.resourceMapping.getFormFields.call(
+			context as ILoadOptionsFunctions,
+		);
+
+		expect(fields).toMatchObject([{ id: 'name', displayName: 'Name', required: true }]);
+	});
+});
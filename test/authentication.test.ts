@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { buildAuthentication } from '../nodes/OpenApi/lib/authentication';
+import type { ParsedOperation, ParsedSecurityScheme } from '../nodes/OpenApi/lib/types';
+
+describe('buildAuthentication', () => {
+	const apiKey: ParsedSecurityScheme = {
+		name: 'api_key',
+		scheme: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+		scopes: [],
+	};
+	const tenantCookie: ParsedSecurityScheme = {
+		name: 'tenant',
+		scheme: { type: 'apiKey', name: 'tenant', in: 'cookie' },
+		scopes: [],
+	};
+	const bearer: ParsedSecurityScheme = {
+		name: 'bearerAuth',
+		scheme: { type: 'http', scheme: 'bearer' },
+		scopes: [],
+	};
+	const basic: ParsedSecurityScheme = {
+		name: 'basicAuth',
+		scheme: { type: 'http', scheme: 'basic' },
+		scopes: [],
+	};
+
+	function operation(security: ParsedOperation['security']): ParsedOperation {
+		return {
+			operationId: 'listPets',
+			method: 'get',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+			security,
+		};
+	}
+
+	const credentials = {
+		authType: 'securitySchemes',
+		securitySchemeCredentials: {
+			schemes: [
+				{ schemeName: 'api_key', value: 'secret-key' },
+				{ schemeName: 'bearerAuth', value: 'my-token' },
+				{ schemeName: 'tenant', value: 'acme corp' },
+				{ schemeName: 'basicAuth', username: 'user', password: 'pass' },
+			],
+		},
+	};
+
+	it('applies every scheme of a requirement together', () => {
+		const auth = buildAuthentication(operation([[apiKey, bearer]]), credentials);
+
+		expect(auth.headers).toEqual({ 'X-API-Key': 'secret-key', Authorization: 'Bearer my-token' });
+	});
+
+	it('applies only the schemes the operation requires', () => {
+		const auth = buildAuthentication(operation([[tenantCookie]]), credentials);
+
+		expect(auth.headers).toEqual({});
+		expect(auth.cookies).toEqual(['tenant=acme%20corp']);
+	});
+
+	it('picks the first requirement whose schemes all have credentials', () => {
+		const partial = {
+			authType: 'securitySchemes',
+			securitySchemeCredentials: {
+				schemes: [{ schemeName: 'basicAuth', username: 'u', password: 'p' }],
+			},
+		};
+
+		const auth = buildAuthentication(operation([[apiKey, bearer], [basic]]), partial);
+
+		expect(auth.headers).toEqual({
+			Authorization: `Basic ${Buffer.from('u:p').toString('base64')}`,
+		});
+	});
+
+	it('sends no credentials when authentication is optional and none match', () => {
+		const auth = buildAuthentication(operation([[apiKey], []]), {
+			authType: 'securitySchemes',
+			securitySchemeCredentials: { schemes: [] },
+		});
+
+		expect(auth).toEqual({ headers: {}, qs: {}, cookies: [] });
+	});
+
+	it('prefers a requirement with credentials over optional authentication', () => {
+		const auth = buildAuthentication(operation([[], [apiKey]]), credentials);
+
+		expect(auth.headers).toEqual({ 'X-API-Key': 'secret-key' });
+	});
+
+	it('never satisfies a requirement naming an undeclared scheme', () => {
+		const undeclared: ParsedSecurityScheme = { name: 'api_key', scheme: undefined, scopes: [] };
+
+		const auth = buildAuthentication(operation([[undeclared], [bearer]]), credentials);
+
+		expect(auth.headers).toEqual({ Authorization: 'Bearer my-token' });
+	});
+
+	it('treats security: [] as public, even with global credentials', () => {
+		const auth = buildAuthentication(operation([]), {
+			authType: 'bearer',
+			bearerToken: 'my-token',
+		});
+
+		expect(auth.headers.Authorization).toBeUndefined();
+	});
+
+	it('applies global credentials when the operation declares no security', () => {
+		const auth = buildAuthentication(operation(undefined), {
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+			apiKeyLocation: 'query',
+		});
+
+		expect(auth.qs).toEqual({ api_key: 'secret-key' });
+	});
+});
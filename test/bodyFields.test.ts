@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { flattenSchema, unflattenFields } from '../nodes/OpenApi/lib/bodyFields';
+import type { OpenApiSchema } from '../nodes/OpenApi/lib/types';
+
+describe('bodyFields', () => {
+	describe('flattenSchema', () => {
+		it('flattens nested objects into dot paths', () => {
+			const schema: OpenApiSchema = {
+				type: 'object',
+				required: ['name', 'address'],
+				properties: {
+					name: { type: 'string' },
+					address: {
+						type: 'object',
+						required: ['city'],
+						properties: {
+							city: { type: 'string' },
+							geo: {
+								type: 'object',
+								properties: { lat: { type: 'number' } },
+							},
+						},
+					},
+					metadata: { type: 'object', additionalProperties: true },
+				},
+			};
+
+			expect(flattenSchema(schema).map(({ path, required }) => ({ path, required }))).toEqual([
+				{ path: 'name', required: true },
+				{ path: 'address.city', required: true },
+				{ path: 'address.geo.lat', required: false },
+				{ path: 'metadata', required: false },
+			]);
+		});
+
+		it('merges allOf members at every level', () => {
+			const schema = {
+				allOf: [
+					{ type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+					{
+						properties: {
+							owner: {
+								allOf: [
+									{ properties: { name: { type: 'string' } } },
+									{ properties: { email: { type: 'string' } } },
+								],
+							},
+						},
+					},
+				],
+			} as OpenApiSchema;
+
+			expect(flattenSchema(schema).map((field) => field.path)).toEqual([
+				'id',
+				'owner.name',
+				'owner.email',
+			]);
+		});
+
+		it('flattens arrays of objects with [] segments and keeps primitive arrays whole', () => {
+			const schema: OpenApiSchema = {
+				type: 'object',
+				properties: {
+					tags: { type: 'array', items: { type: 'string' } },
+					items: {
+						type: 'array',
+						items: {
+							type: 'object',
+							required: ['sku'],
+							properties: { sku: { type: 'string' }, qty: { type: 'integer' } },
+						},
+					},
+				},
+			};
+
+			expect(flattenSchema(schema).map((field) => field.path)).toEqual([
+				'tags',
+				'items[].sku',
+				'items[].qty',
+			]);
+		});
+
+		it('stops at recursive schemas', () => {
+			const node: OpenApiSchema = { type: 'object', properties: { name: { type: 'string' } } };
+			node.properties!.child = node;
+
+			expect(
+				flattenSchema({ type: 'object', properties: { root: node } }).map((f) => f.path),
+			).toEqual(['root.name', 'root.child']);
+		});
+	});
+
+	describe('unflattenFields', () => {
+		it('rebuilds nested objects', () => {
+			expect(
+				unflattenFields({ name: 'Rex', 'address.city': 'Oslo', 'address.geo.lat': 59.9 }),
+			).toEqual({ name: 'Rex', address: { city: 'Oslo', geo: { lat: 59.9 } } });
+		});
+
+		it('zips array item fields into objects', () => {
+			expect(
+				unflattenFields({ 'items[].sku': ['A', 'B'], 'items[].qty': '[1, 2]', currency: 'NOK' }),
+			).toEqual({
+				currency: 'NOK',
+				items: [
+					{ sku: 'A', qty: 1 },
+					{ sku: 'B', qty: 2 },
+				],
+			});
+		});
+
+		it('repeats single values and builds one item when nothing is an array', () => {
+			expect(unflattenFields({ 'items[].sku': ['A', 'B'], 'items[].qty': 1 })).toEqual({
+				items: [
+					{ sku: 'A', qty: 1 },
+					{ sku: 'B', qty: 1 },
+				],
+			});
+			expect(unflattenFields({ 'items[].sku': 'A' })).toEqual({ items: [{ sku: 'A' }] });
+		});
+
+		it('keeps escaped dots and brackets in property names', () => {
+			const schema: OpenApiSchema = {
+				type: 'object',
+				properties: {
+					'@odata.type': { type: 'string' },
+					'tags[0]': { type: 'string' },
+					'line.items': {
+						type: 'array',
+						items: { type: 'object', properties: { 'a.b': { type: 'string' } } },
+					},
+				},
+			};
+			const paths = flattenSchema(schema).map(({ path }) => path);
+
+			expect(paths).toEqual(['@odata\\.type', 'tags\\[0\\]', 'line\\.items[].a\\.b']);
+			expect(
+				unflattenFields({ [paths[0]]: '#x', [paths[1]]: 'a', [paths[2]]: ['1', '2'] }),
+			).toEqual({
+				'@odata.type': '#x',
+				'tags[0]': 'a',
+				'line.items': [{ 'a.b': '1' }, { 'a.b': '2' }],
+			});
+		});
+
+		it('supports explicit indexes and skips undefined values', () => {
+			expect(
+				unflattenFields({ 'items[1].sku': 'B', 'items[0].sku': 'A', note: undefined }),
+			).toEqual({ items: [{ sku: 'A' }, { sku: 'B' }] });
+		});
+	});
+});
@@ -1,3 +1,4 @@
+import { Buffer } from 'node:buffer';
 import { describe, it, expect } from 'vitest';
 import { buildRequestOptions, type BodyData } from '../nodes/OpenApi/lib/buildRequestOptions';
 import type { ParsedOperation } from '../nodes/OpenApi/lib/types';
@@ -25,6 +26,68 @@ describe('buildRequestOptions', () => {
 		});
 	});
 
+	it('accepts the media types documented for successful responses', () => {
+		const operation: ParsedOperation = {
+			operationId: 'getInvoice',
+			method: 'get',
+			path: '/invoices/{id}',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+			responses: [
+				{ statusCode: '200', contentType: 'application/pdf', schema: undefined },
+				{ statusCode: '200', contentType: 'application/xml', schema: { type: 'object' } },
+				{ statusCode: '2XX', contentType: 'application/pdf', schema: undefined },
+				{ statusCode: '404', contentType: 'application/problem+json', schema: undefined },
+			],
+		};
+
+		expect(buildRequestOptions(operation, baseUrl, {}, noBody).headers).toMatchObject({
+			Accept: 'application/pdf, application/xml',
+		});
+		expect(
+			buildRequestOptions({ ...operation, responses: [] }, baseUrl, {}, noBody).headers,
+		).toMatchObject({ Accept: 'application/json' });
+	});
+
+	it.each(['head', 'options', 'trace'] as const)('sends %s requests', (method) => {
+		const operation: ParsedOperation = {
+			operationId: 'describePets',
+			method,
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+		};
+
+		expect(buildRequestOptions(operation, baseUrl, {}, noBody).method).toBe(method.toUpperCase());
+	});
+
+	it('joins base URL and path with a single slash', () => {
+		const operation: ParsedOperation = {
+			operationId: 'listPets',
+			method: 'get',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+		};
+
+		expect(buildRequestOptions(operation, 'https://api.example.com/', {}, noBody).url).toBe(
+			'https://api.example.com/pets',
+		);
+		expect(buildRequestOptions(operation, 'https://api.example.com/v1/', {}, noBody).url).toBe(
+			'https://api.example.com/v1/pets',
+		);
+		expect(
+			buildRequestOptions({ ...operation, path: 'pets' }, 'https://api.example.com', {}, noBody)
+				.url,
+		).toBe('https://api.example.com/pets');
+	});
+
 	it('replaces path parameters', () => {
 		const operation: ParsedOperation = {
 			operationId: 'getPet',
@@ -44,7 +107,7 @@ describe('buildRequestOptions', () => {
 			requestBody: undefined,
 		};
 
-		const result = buildRequestOptions(operation, baseUrl, { petId: '123' }, noBody);
+		const result = buildRequestOptions(operation, baseUrl, { path: { petId: '123' } }, noBody);
 
 		expect(result.url).toBe('https://api.example.com/v1/pets/123');
 	});
@@ -73,7 +136,7 @@ describe('buildRequestOptions', () => {
 		const result = buildRequestOptions(
 			operation,
 			baseUrl,
-			{ owner: 'octocat', repo: 'hello', number: 42 },
+			{ path: { owner: 'octocat', repo: 'hello', number: 42 } },
 			noBody,
 		);
 
@@ -109,11 +172,11 @@ describe('buildRequestOptions', () => {
 		const result = buildRequestOptions(
 			operation,
 			baseUrl,
-			{ limit: 10, status: 'available' },
+			{ query: { limit: 10, status: 'available' } },
 			noBody,
 		);
 
-		expect(result.qs).toEqual({ limit: 10, status: 'available' });
+		expect(result.url).toBe('https://api.example.com/v1/pets?limit=10&status=available');
 	});
 
 	it('omits empty query parameters', () => {
@@ -142,9 +205,274 @@ describe('buildRequestOptions', () => {
 			requestBody: undefined,
 		};
 
-		const result = buildRequestOptions(operation, baseUrl, { limit: 10, status: '' }, noBody);
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{ query: { limit: 10, status: '' } },
+			noBody,
+		);
+
+		expect(result.url).toBe('https://api.example.com/v1/pets?limit=10');
+	});
+
+	it('serializes deepObject and non-exploded form query parameters', () => {
+		const operation: ParsedOperation = {
+			operationId: 'listIssues',
+			method: 'get',
+			path: '/issues',
+			summary: '',
+			description: '',
+			parameters: [
+				{
+					name: 'filter',
+					in: 'query',
+					required: false,
+					schema: { type: 'object' },
+					description: '',
+					style: 'deepObject',
+					explode: true,
+				},
+				{
+					name: 'tags',
+					in: 'query',
+					required: false,
+					schema: { type: 'array', items: { type: 'string' } },
+					description: '',
+					style: 'form',
+					explode: false,
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{ query: { filter: { status: 'open' }, tags: ['a', 'b'] } },
+			noBody,
+		);
+
+		expect(result.url).toBe('https://api.example.com/v1/issues?filter[status]=open&tags=a,b');
+	});
+
+	it('serializes array path parameters using the declared style', () => {
+		const operation: ParsedOperation = {
+			operationId: 'getPets',
+			method: 'get',
+			path: '/pets/{ids}',
+			summary: '',
+			description: '',
+			parameters: [
+				{
+					name: 'ids',
+					in: 'path',
+					required: true,
+					schema: { type: 'array', items: { type: 'integer' } },
+					description: '',
+					style: 'matrix',
+					explode: true,
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const result = buildRequestOptions(operation, baseUrl, { path: { ids: [3, 4] } }, noBody);
+
+		expect(result.url).toBe('https://api.example.com/v1/pets/;ids=3;ids=4');
+	});
+
+	it('sends header parameters as headers', () => {
+		const operation: ParsedOperation = {
+			operationId: 'updatePet',
+			method: 'put',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [
+				{
+					name: 'X-Tenant-Id',
+					in: 'header',
+					required: true,
+					schema: { type: 'string' },
+					description: '',
+				},
+				{
+					name: 'If-Match',
+					in: 'header',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+				{
+					name: 'dryRun',
+					in: 'query',
+					required: false,
+					schema: { type: 'boolean' },
+					description: '',
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{
+				header: { 'X-Tenant-Id': 'acme', 'If-Match': '"abc"' },
+				query: { dryRun: true },
+			},
+			noBody,
+		);
 
-		expect(result.qs).toEqual({ limit: 10 });
+		expect(result.headers).toMatchObject({ 'X-Tenant-Id': 'acme', 'If-Match': '"abc"' });
+		expect(result.url).toBe('https://api.example.com/v1/pets?dryRun=true');
+	});
+
+	it('keeps parameters that share a name in different locations apart', () => {
+		const operation: ParsedOperation = {
+			operationId: 'getPet',
+			method: 'get',
+			path: '/pets/{id}',
+			summary: '',
+			description: '',
+			parameters: [
+				{ name: 'id', in: 'path', required: true, schema: { type: 'string' }, description: '' },
+				{ name: 'id', in: 'header', required: false, schema: { type: 'string' }, description: '' },
+				{
+					name: 'version',
+					in: 'query',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+				{
+					name: 'version',
+					in: 'header',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{
+				path: { id: '42' },
+				query: { version: '2' },
+				header: { id: 'trace-1', version: 'beta' },
+			},
+			noBody,
+		);
+
+		expect(result.url).toBe('https://api.example.com/v1/pets/42?version=2');
+		expect(result.headers).toMatchObject({ id: 'trace-1', version: 'beta' });
+	});
+
+	it('ignores header parameters named Accept, Content-Type or Authorization', () => {
+		const operation: ParsedOperation = {
+			operationId: 'listPets',
+			method: 'get',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [
+				{
+					name: 'Authorization',
+					in: 'header',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{ header: { Authorization: 'spoofed' } },
+			noBody,
+		);
+
+		expect(result.headers?.Authorization).toBeUndefined();
+		expect(result.qs).toBeUndefined();
+	});
+
+	it('sends cookie parameters as an encoded Cookie header', () => {
+		const operation: ParsedOperation = {
+			operationId: 'listPets',
+			method: 'get',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [
+				{
+					name: 'session',
+					in: 'cookie',
+					required: true,
+					schema: { type: 'string' },
+					description: '',
+				},
+				{
+					name: 'theme',
+					in: 'cookie',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{ cookie: { session: 'a b;c', theme: 'dark' } },
+			noBody,
+		);
+
+		expect(result.headers?.Cookie).toBe('session=a%20b%3Bc; theme=dark');
+		expect(result.qs).toBeUndefined();
+	});
+
+	it('merges cookie parameters with an API key cookie', () => {
+		const operation: ParsedOperation = {
+			operationId: 'listPets',
+			method: 'get',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [
+				{
+					name: 'theme',
+					in: 'cookie',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+			],
+			requestBody: undefined,
+		};
+
+		const credentials = {
+			authType: 'apiKey',
+			apiKey: 'secret-key',
+			apiKeyLocation: 'cookie',
+			apiKeyName: 'api_key',
+		};
+
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{ cookie: { theme: 'dark' } },
+			noBody,
+			credentials,
+		);
+
+		expect(result.headers?.Cookie).toBe('theme=dark; api_key=secret-key');
 	});
 
 	it('builds POST request with JSON body', () => {
@@ -183,6 +511,98 @@ describe('buildRequestOptions', () => {
 		});
 	});
 
+	describe('other media types', () => {
+		const upload: ParsedOperation = {
+			operationId: 'upload',
+			method: 'put',
+			path: '/files',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+		};
+
+		it('sends structured JSON suffix types as JSON', () => {
+			const result = buildRequestOptions(
+				upload,
+				baseUrl,
+				{},
+				{
+					contentType: 'application/merge-patch+json',
+					data: { name: null },
+				},
+			);
+
+			expect(result).toMatchObject({ body: { name: null }, json: true });
+			expect(result.headers).toMatchObject({ 'Content-Type': 'application/merge-patch+json' });
+		});
+
+		it('sends text bodies as is', () => {
+			const result = buildRequestOptions(
+				upload,
+				baseUrl,
+				{},
+				{
+					contentType: 'text/csv',
+					data: 'id,name\n1,Rex',
+				},
+			);
+
+			expect(result.body).toBe('id,name\n1,Rex');
+		});
+
+		it('encodes multipart bodies with their files', () => {
+			const operation: ParsedOperation = {
+				...upload,
+				requestBody: {
+					contentType: 'multipart/form-data',
+					required: true,
+					schema: {
+						type: 'object',
+						properties: { file: { type: 'string', format: 'binary' } },
+					},
+					encoding: { file: { contentType: 'text/csv' } },
+				},
+			};
+
+			const result = buildRequestOptions(
+				operation,
+				baseUrl,
+				{},
+				{
+					contentType: 'multipart/form-data',
+					data: { note: 'hi' },
+					files: { file: [{ data: Buffer.from('a,b'), fileName: 'data.csv' }] },
+				},
+			);
+
+			const contentType = (result.headers as Record<string, string>)['Content-Type'];
+			expect(contentType).toMatch(/^multipart\/form-data; boundary=/);
+			expect(result.json).toBe(false);
+			const body = (result.body as Buffer).toString();
+			expect(body).toContain('name="note"\r\nContent-Type: text/plain\r\n\r\nhi');
+			expect(body).toContain('filename="data.csv"\r\nContent-Type: text/csv\r\n\r\na,b');
+		});
+
+		it('sends binary data as the raw payload', () => {
+			const data = Buffer.from('file contents');
+			const result = buildRequestOptions(
+				upload,
+				baseUrl,
+				{},
+				{
+					contentType: 'application/octet-stream',
+					data,
+					binaryPropertyName: 'data',
+				},
+			);
+
+			expect(result.body).toBe(data);
+			expect(result.json).toBe(false);
+			expect(result.headers).toMatchObject({ 'Content-Type': 'application/octet-stream' });
+		});
+	});
+
 	it('applies API key header authentication', () => {
 		const operation: ParsedOperation = {
 			operationId: 'listPets',
@@ -314,7 +734,12 @@ describe('buildRequestOptions', () => {
 			requestBody: undefined,
 		};
 
-		const result = buildRequestOptions(operation, baseUrl, { name: 'hello world' }, noBody);
+		const result = buildRequestOptions(
+			operation,
+			baseUrl,
+			{ path: { name: 'hello world' } },
+			noBody,
+		);
 
 		expect(result.url).toBe('https://api.example.com/v1/items/hello%20world');
 	});
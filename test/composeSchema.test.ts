@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getSchemaVariants,
+	mergeAllOf,
+	resolveSchemaVariant,
+} from '../nodes/OpenApi/lib/composeSchema';
+import type { OpenApiSchema } from '../nodes/OpenApi/lib/types';
+
+const pet = {
+	type: 'object',
+	required: ['petType'],
+	properties: { petType: { type: 'string' }, name: { type: 'string' } },
+} as OpenApiSchema;
+
+const petSchema = {
+	oneOf: [
+		{ title: 'Cat', allOf: [pet, { properties: { indoor: { type: 'boolean' } } }] },
+		{
+			title: 'Dog',
+			allOf: [pet, { required: ['bark'], properties: { bark: { type: 'string' } } }],
+		},
+	],
+	discriminator: {
+		propertyName: 'petType',
+		mapping: { dog: '#/components/schemas/Dog', cat: '#/components/schemas/Cat' },
+	},
+} as OpenApiSchema;
+
+describe('composeSchema', () => {
+	describe('mergeAllOf', () => {
+		it('merges properties and required lists of all members', () => {
+			const merged = mergeAllOf({
+				allOf: [
+					{ type: 'object', required: ['id'], properties: { id: { type: 'integer' } } },
+					{ required: ['name'], properties: { name: { type: 'string' } } },
+				],
+				description: 'A pet',
+			} as OpenApiSchema);
+
+			expect(merged).toEqual({
+				type: 'object',
+				required: ['id', 'name'],
+				properties: { id: { type: 'integer' }, name: { type: 'string' } },
+				description: 'A pet',
+			});
+		});
+
+		it('merges nested allOf and properties declared in several members', () => {
+			const merged = mergeAllOf({
+				allOf: [
+					{ allOf: [{ properties: { address: { properties: { city: { type: 'string' } } } } }] },
+					{ properties: { address: { properties: { zip: { type: 'string' } } } } },
+				],
+			} as OpenApiSchema);
+
+			expect(Object.keys(merged.properties ?? {})).toEqual(['address']);
+			expect(Object.keys((merged.properties?.address as OpenApiSchema).properties ?? {})).toEqual([
+				'city',
+				'zip',
+			]);
+		});
+
+		it('returns schemas without allOf unchanged', () => {
+			expect(mergeAllOf(pet)).toBe(pet);
+		});
+	});
+
+	describe('getSchemaVariants', () => {
+		it('names variants after the discriminator mapping', () => {
+			const variants = getSchemaVariants(petSchema);
+
+			expect(variants.map((v) => v.name)).toEqual(['cat', 'dog']);
+			expect(variants[1].discriminator).toEqual({ propertyName: 'petType', value: 'dog' });
+			expect(variants[1].schema.required).toEqual(['petType', 'bark']);
+		});
+
+		it('prefers a single enum value on the discriminator property', () => {
+			const variants = getSchemaVariants({
+				oneOf: [
+					{ properties: { kind: { type: 'string', enum: ['square'] } } },
+					{ properties: { kind: { type: 'string', enum: ['circle'] } } },
+				],
+				discriminator: {
+					propertyName: 'kind',
+					mapping: { circle: '#/components/schemas/A', square: '#/components/schemas/B' },
+				},
+			} as OpenApiSchema);
+
+			expect(variants.map((v) => v.name)).toEqual(['square', 'circle']);
+		});
+
+		it('falls back to titles and positions without a discriminator', () => {
+			const variants = getSchemaVariants({
+				type: 'object',
+				properties: { id: { type: 'string' } },
+				anyOf: [
+					{ title: 'By email', properties: { email: { type: 'string' } } },
+					{ properties: { phone: { type: 'string' } } },
+				],
+			} as OpenApiSchema);
+
+			expect(variants.map((v) => v.name)).toEqual(['By email', 'Variant 2']);
+			expect(variants[0].discriminator).toBeUndefined();
+			expect(Object.keys(variants[1].schema.properties ?? {})).toEqual(['id', 'phone']);
+		});
+
+		it('returns nothing for schemas without alternatives', () => {
+			expect(getSchemaVariants(pet)).toEqual([]);
+		});
+	});
+
+	describe('resolveSchemaVariant', () => {
+		it('drops the discriminator property from the selected variant', () => {
+			const { schema, discriminator } = resolveSchemaVariant(petSchema, 'dog');
+
+			expect(Object.keys(schema.properties ?? {})).toEqual(['name', 'bark']);
+			expect(schema.required).toEqual(['bark']);
+			expect(discriminator).toEqual({ propertyName: 'petType', value: 'dog' });
+		});
+
+		it('uses the first variant when none is selected', () => {
+			expect(resolveSchemaVariant(petSchema, '').discriminator?.value).toBe('cat');
+		});
+
+		it('merges allOf for schemas without alternatives', () => {
+			const { schema } = resolveSchemaVariant({ allOf: [pet] } as OpenApiSchema);
+			expect(schema.type).toBe('object');
+		});
+	});
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import { parseErrorResponse } from '../nodes/OpenApi/lib/errorResponse';
+import type { ParsedOperation } from '../nodes/OpenApi/lib/types';
+
+describe('parseErrorResponse', () => {
+	const getPet: ParsedOperation = {
+		operationId: 'getPet',
+		method: 'get',
+		path: '/pets/{petId}',
+		summary: '',
+		description: '',
+		parameters: [],
+		requestBody: undefined,
+		responses: [
+			{
+				statusCode: '4XX',
+				contentType: 'application/json',
+				schema: {
+					type: 'object',
+					properties: {
+						code: { type: 'integer' },
+						fault: {
+							type: 'object',
+							properties: { description: { type: 'string' } },
+						},
+					},
+				},
+			},
+			{
+				statusCode: 'default',
+				contentType: 'application/problem+json',
+				schema: {
+					type: 'object',
+					properties: { title: { type: 'string' }, detail: { type: 'string' } },
+				},
+			},
+		],
+	};
+
+	it('reads RFC 7807 problem details', () => {
+		const body = Buffer.from(
+			JSON.stringify({
+				type: 'https://example.com/probs/out-of-stock',
+				title: 'Out of stock',
+				detail: 'Pet 42 is no longer available',
+				status: 503,
+			}),
+		);
+
+		expect(parseErrorResponse(getPet, 503, 'application/problem+json', body)).toMatchObject({
+			statusCode: 503,
+			message: 'Out of stock',
+			description: 'Pet 42 is no longer available',
+			body: { title: 'Out of stock' },
+		});
+	});
+
+	it('uses message properties from the documented schema', () => {
+		const body = Buffer.from(JSON.stringify({ code: 7, fault: { description: 'Unknown pet' } }));
+
+		expect(parseErrorResponse(getPet, 404, 'application/json', body)).toMatchObject({
+			message: 'Unknown pet',
+		});
+	});
+
+	it('falls back to common message fields', () => {
+		expect(
+			parseErrorResponse(getPet, 400, 'application/json', { error: { message: 'Bad limit' } }),
+		).toMatchObject({ message: 'Bad limit' });
+		expect(
+			parseErrorResponse(getPet, 400, 'application/json', {
+				error: 'invalid_request',
+				error_description: 'Missing token',
+			}),
+		).toMatchObject({ message: 'Missing token', description: undefined });
+	});
+
+	it('uses short plain-text bodies as the message', () => {
+		expect(parseErrorResponse(getPet, 429, 'text/plain', Buffer.from('Slow down'))).toMatchObject({
+			message: 'Slow down',
+		});
+		expect(
+			parseErrorResponse(getPet, 502, 'text/html', Buffer.from('<html>Bad gateway</html>')),
+		).toMatchObject({ message: undefined });
+	});
+});
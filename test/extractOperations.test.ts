@@ -129,6 +129,45 @@ describe('extractOperations', () => {
 		expect(properties?.name).toBeDefined();
 	});
 
+	it('keeps every request body media type', async () => {
+		const spec = await parseOpenApiSpec(
+			JSON.stringify({
+				openapi: '3.0.3',
+				info: { title: 'Uploads', version: '1.0.0' },
+				paths: {
+					'/files': {
+						post: {
+							operationId: 'createFile',
+							requestBody: {
+								content: {
+									'multipart/form-data': {
+										schema: { type: 'object', properties: { file: { type: 'string' } } },
+									},
+									'application/json': {
+										schema: { type: 'object', properties: { url: { type: 'string' } } },
+									},
+									'application/octet-stream': {},
+								},
+							},
+							responses: { '201': { description: 'Created' } },
+						},
+					},
+				},
+			}),
+		);
+
+		const [createFile] = extractOperations(spec);
+
+		expect(createFile.requestBody?.contentType).toBe('application/json');
+		expect(createFile.requestBody?.contents?.map((c) => c.contentType)).toEqual([
+			'multipart/form-data',
+			'application/json',
+			'application/octet-stream',
+		]);
+		expect(createFile.requestBody?.contents?.[0].schema.properties).toHaveProperty('file');
+		expect(createFile.requestBody?.contents?.[2].schema).toEqual({});
+	});
+
 	it('handles operations without requestBody', async () => {
 		const specPath = join(__dirname, 'fixtures/petstore.json');
 		const specContent = await readFile(specPath, 'utf-8');
@@ -142,4 +181,148 @@ describe('extractOperations', () => {
 		const getPet = operations.find((op) => op.operationId === 'getPet');
 		expect(getPet?.requestBody).toBeUndefined();
 	});
+
+	it('extracts HEAD, OPTIONS and TRACE operations', async () => {
+		const spec = await parseOpenApiSpec(
+			JSON.stringify({
+				openapi: '3.0.3',
+				info: { title: 'Methods', version: '1.0.0' },
+				paths: {
+					'/pets/{petId}': {
+						head: { operationId: 'petExists', responses: { '200': { description: 'OK' } } },
+						options: { operationId: 'petOptions', responses: { '204': { description: 'OK' } } },
+						trace: { operationId: 'tracePet', responses: { '200': { description: 'OK' } } },
+					},
+				},
+			}),
+		);
+
+		const operations = extractOperations(spec);
+
+		expect(operations.map((op) => [op.operationId, op.method])).toEqual([
+			['petExists', 'head'],
+			['petOptions', 'options'],
+			['tracePet', 'trace'],
+		]);
+	});
+
+	it('extracts tags and the deprecated flag', async () => {
+		const spec = await parseOpenApiSpec(
+			JSON.stringify({
+				openapi: '3.0.3',
+				info: { title: 'Tags', version: '1.0.0' },
+				paths: {
+					'/pets': {
+						get: {
+							operationId: 'listPets',
+							tags: ['pets', 'store'],
+							deprecated: true,
+							responses: { '200': { description: 'OK' } },
+						},
+						post: { operationId: 'createPet', responses: { '201': { description: 'Created' } } },
+					},
+				},
+			}),
+		);
+
+		const [listPets, createPet] = extractOperations(spec);
+
+		expect(listPets).toMatchObject({ tags: ['pets', 'store'], deprecated: true });
+		expect(createPet).toMatchObject({ tags: [], deprecated: false });
+	});
+
+	it('resolves security requirements against securitySchemes', async () => {
+		const spec = await parseOpenApiSpec(
+			JSON.stringify({
+				openapi: '3.0.3',
+				info: { title: 'Secure', version: '1.0.0' },
+				security: [{ api_key: [] }],
+				components: {
+					securitySchemes: {
+						api_key: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+						oauth: {
+							type: 'oauth2',
+							flows: {
+								clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: {} },
+							},
+						},
+					},
+				},
+				paths: {
+					'/pets': {
+						get: { operationId: 'listPets', responses: { '200': { description: 'OK' } } },
+						post: {
+							operationId: 'createPet',
+							security: [{ api_key: [], oauth: ['pets:write'] }],
+							responses: { '201': { description: 'Created' } },
+						},
+					},
+					'/health': {
+						get: {
+							operationId: 'getHealth',
+							security: [],
+							responses: { '200': { description: 'OK' } },
+						},
+					},
+					'/legacy': {
+						get: {
+							operationId: 'getLegacy',
+							security: [{ legacy_key: [] }],
+							responses: { '200': { description: 'OK' } },
+						},
+					},
+				},
+			}),
+		);
+
+		const operations = extractOperations(spec);
+		const security = (operationId: string) =>
+			operations.find((op) => op.operationId === operationId)?.security;
+
+		expect(security('listPets')).toMatchObject([[{ name: 'api_key', scopes: [] }]]);
+		expect(security('createPet')).toMatchObject([
+			[
+				{ name: 'api_key', scheme: { type: 'apiKey' } },
+				{ name: 'oauth', scheme: { type: 'oauth2' }, scopes: ['pets:write'] },
+			],
+		]);
+		expect(security('getHealth')).toEqual([]);
+		expect(security('getLegacy')).toEqual([
+			[{ name: 'legacy_key', scheme: undefined, scopes: [] }],
+		]);
+	});
+
+	it('extracts response schemas per status code and content type', async () => {
+		const spec = await parseOpenApiSpec(
+			JSON.stringify({
+				openapi: '3.0.3',
+				info: { title: 'Responses', version: '1.0.0' },
+				paths: {
+					'/pets/{petId}': {
+						get: {
+							operationId: 'getPet',
+							responses: {
+								'200': {
+									description: 'OK',
+									content: {
+										'application/json': { schema: { type: 'object' } },
+										'application/xml': { schema: { type: 'object' } },
+									},
+								},
+								'404': { description: 'Not found' },
+							},
+						},
+					},
+				},
+			}),
+		);
+
+		const [getPet] = extractOperations(spec);
+
+		expect(getPet.responses).toEqual([
+			{ statusCode: '200', contentType: 'application/json', schema: { type: 'object' } },
+			{ statusCode: '200', contentType: 'application/xml', schema: { type: 'object' } },
+			{ statusCode: '404', contentType: undefined, schema: undefined },
+		]);
+	});
 });
@@ -0,0 +1,103 @@
+import { Buffer } from 'node:buffer';
+import { describe, it, expect } from 'vitest';
+import { buildMultipartBody } from '../nodes/OpenApi/lib/multipart';
+import type { OpenApiSchema } from '../nodes/OpenApi/lib/types';
+
+describe('buildMultipartBody', () => {
+	const schema: OpenApiSchema = {
+		type: 'object',
+		properties: {
+			caption: { type: 'string' },
+			metadata: { type: 'object', properties: { tag: { type: 'string' } } },
+			tags: { type: 'array', items: { type: 'string' } },
+			image: { type: 'string', format: 'binary' },
+		},
+	};
+
+	it('encodes fields and files with default part content types', () => {
+		const { contentType, body } = buildMultipartBody(
+			schema,
+			{ caption: 'Rex', metadata: { tag: 'dog' }, tags: 'a, b' },
+			{ image: [{ data: Buffer.from('PNG'), fileName: 'rex.png', mimeType: 'image/png' }] },
+			{},
+			'XYZ',
+		);
+
+		expect(contentType).toBe('multipart/form-data; boundary=XYZ');
+		expect(body.toString()).toBe(
+			[
+				'--XYZ',
+				'Content-Disposition: form-data; name="caption"',
+				'Content-Type: text/plain',
+				'',
+				'Rex',
+				'--XYZ',
+				'Content-Disposition: form-data; name="metadata"',
+				'Content-Type: application/json',
+				'',
+				'{"tag":"dog"}',
+				'--XYZ',
+				'Content-Disposition: form-data; name="tags"',
+				'Content-Type: text/plain',
+				'',
+				'a',
+				'--XYZ',
+				'Content-Disposition: form-data; name="tags"',
+				'Content-Type: text/plain',
+				'',
+				'b',
+				'--XYZ',
+				'Content-Disposition: form-data; name="image"; filename="rex.png"',
+				'Content-Type: image/png',
+				'',
+				'PNG',
+				'--XYZ--',
+				'',
+			].join('\r\n'),
+		);
+	});
+
+	it('applies the content types and headers of the Encoding Object', () => {
+		const { body } = buildMultipartBody(
+			schema,
+			{ caption: 'Rex' },
+			{
+				image: [
+					{ data: Buffer.from('JPG'), fileName: 'a.jpg', mimeType: 'image/jpeg' },
+					{ data: Buffer.from('BIN'), fileName: 'b.bin' },
+				],
+			},
+			{
+				caption: { contentType: 'text/markdown' },
+				image: {
+					contentType: 'image/png, image/jpeg',
+					headers: {
+						'X-Rate-Limit': { schema: { type: 'integer', default: 10 } },
+						'X-Undocumented': { schema: { type: 'string' } },
+						'Content-Type': { schema: { type: 'string', default: 'text/plain' } },
+					},
+				},
+			},
+			'XYZ',
+		);
+
+		const text = body.toString();
+		expect(text).toContain('name="caption"\r\nContent-Type: text/markdown\r\n');
+		expect(text).toContain(
+			'filename="a.jpg"\r\nContent-Type: image/jpeg\r\nX-Rate-Limit: 10\r\n\r\nJPG',
+		);
+		expect(text).toContain(
+			'filename="b.bin"\r\nContent-Type: image/png\r\nX-Rate-Limit: 10\r\n\r\nBIN',
+		);
+		expect(text).not.toContain('X-Undocumented');
+	});
+
+	it('keeps binary file contents intact', () => {
+		const data = Buffer.from([0, 255, 10, 13]);
+		const { body } = buildMultipartBody(schema, {}, { image: [{ data }] }, {}, 'XYZ');
+
+		const start = body.indexOf('\r\n\r\n') + 4;
+		expect(body.subarray(start, start + 4)).toEqual(data);
+		expect(body.toString()).toContain('filename="image"');
+	});
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+	clearTokenCache,
+	getAccessToken,
+	invalidateAccessToken,
+	resolveOAuth2Config,
+	type OAuth2Config,
+	type TokenRequester,
+} from '../nodes/OpenApi/lib/oauth2';
+import type { OpenApiDocument, ParsedOperation } from '../nodes/OpenApi/lib/types';
+
+describe('oauth2', () => {
+	let server: Server;
+	let tokenUrl: string;
+	let requests: { form: URLSearchParams; authorization?: string }[];
+	let issued: number;
+
+	beforeAll(async () => {
+		server = createServer((req, res) => {
+			let body = '';
+			req.on('data', (chunk) => (body += chunk));
+			req.on('end', () => {
+				const form = new URLSearchParams(body);
+				requests.push({ form, authorization: req.headers.authorization });
+				issued++;
+				res.setHeader('Content-Type', 'application/json');
+				res.end(JSON.stringify({ access_token: `token-${issued}`, expires_in: 3600 }));
+			});
+		});
+		await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+		tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/token`;
+	});
+
+	afterAll(async () => {
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	beforeEach(() => {
+		clearTokenCache();
+		vi.useRealTimers();
+		requests = [];
+		issued = 0;
+	});
+
+	const requestToken: TokenRequester = async (url, form, headers) => {
+		const response = await fetch(url, {
+			method: 'POST',
+			headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+			body: new URLSearchParams(form).toString(),
+		});
+		return await response.json();
+	};
+
+	function config(overrides: Partial<OAuth2Config> = {}): OAuth2Config {
+		return {
+			tokenUrl,
+			clientId: 'client',
+			clientSecret: 'secret',
+			scopes: ['pets:read'],
+			clientAuthentication: 'header',
+			...overrides,
+		};
+	}
+
+	it('fetches client credentials tokens with basic client authentication', async () => {
+		const token = await getAccessToken(config(), requestToken);
+
+		expect(token).toBe('token-1');
+		expect(requests[0].form.get('grant_type')).toBe('client_credentials');
+		expect(requests[0].form.get('scope')).toBe('pets:read');
+		expect(requests[0].authorization).toBe(
+			`Basic ${Buffer.from('client:secret').toString('base64')}`,
+		);
+	});
+
+	it('sends client credentials in the body when configured', async () => {
+		await getAccessToken(config({ clientAuthentication: 'body' }), requestToken);
+
+		expect(requests[0].authorization).toBeUndefined();
+		expect(requests[0].form.get('client_id')).toBe('client');
+		expect(requests[0].form.get('client_secret')).toBe('secret');
+	});
+
+	it('caches tokens until they expire', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+
+		expect(await getAccessToken(config(), requestToken)).toBe('token-1');
+		expect(await getAccessToken(config(), requestToken)).toBe('token-1');
+
+		vi.advanceTimersByTime(3600 * 1000);
+		expect(await getAccessToken(config(), requestToken)).toBe('token-2');
+		expect(requests).toHaveLength(2);
+	});
+
+	it('fetches a new token after invalidation', async () => {
+		await getAccessToken(config(), requestToken);
+		invalidateAccessToken(config());
+
+		expect(await getAccessToken(config(), requestToken)).toBe('token-2');
+	});
+
+	it('keeps tokens of different clients for the same token URL apart', async () => {
+		expect(await getAccessToken(config({ clientId: 'alice' }), requestToken)).toBe('token-1');
+		expect(await getAccessToken(config({ clientId: 'bob' }), requestToken)).toBe('token-2');
+		expect(await getAccessToken(config({ clientId: 'alice' }), requestToken)).toBe('token-1');
+		expect(requests).toHaveLength(2);
+	});
+
+	describe('resolveOAuth2Config', () => {
+		const spec: OpenApiDocument = {
+			openapi: '3.0.3',
+			info: { title: 'OAuth', version: '1.0.0' },
+			paths: {},
+			components: {
+				securitySchemes: {
+					oauth: {
+						type: 'oauth2',
+						flows: {
+							clientCredentials: { tokenUrl: '/oauth/token', scopes: { 'pets:read': '' } },
+						},
+					},
+				},
+			},
+		};
+		const operation: ParsedOperation = {
+			operationId: 'listPets',
+			method: 'get',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+			security: [
+				[
+					{
+						name: 'oauth',
+						scheme: spec.components!.securitySchemes!.oauth as never,
+						scopes: ['pets:read'],
+					},
+				],
+			],
+		};
+
+		it('takes the token URL and scopes from the operation security requirement', () => {
+			const result = resolveOAuth2Config(
+				spec,
+				operation,
+				{ authType: 'oauth2ClientCredentials', clientId: 'client', clientSecret: 'secret' },
+				'https://api.example.com/openapi.json',
+			);
+
+			expect(result).toMatchObject({
+				tokenUrl: 'https://api.example.com/oauth/token',
+				scopes: ['pets:read'],
+				clientAuthentication: 'header',
+			});
+		});
+
+		it('prefers the token URL and scopes from the credentials', () => {
+			const result = resolveOAuth2Config(spec, operation, {
+				authType: 'oauth2ClientCredentials',
+				oauth2TokenUrl: 'https://auth.example.com/token',
+				oauth2Scopes: 'a b',
+			});
+
+			expect(result).toMatchObject({
+				tokenUrl: 'https://auth.example.com/token',
+				scopes: ['a', 'b'],
+			});
+		});
+
+		it('fails when the spec has no matching flow', () => {
+			const noFlow: OpenApiDocument = { ...spec, components: {} };
+
+			expect(() =>
+				resolveOAuth2Config(
+					noFlow,
+					{ ...operation, security: undefined },
+					{
+						authType: 'oauth2ClientCredentials',
+					},
+				),
+			).toThrow('No OAuth2 clientCredentials flow with a token URL found in the spec');
+		});
+	});
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { searchOperations } from '../nodes/OpenApi/lib/operationSearch';
+import type { OpenApiDocument, ParsedOperation } from '../nodes/OpenApi/lib/types';
+
+const spec = {
+	openapi: '3.0.3',
+	info: { title: 'Store', version: '1.0.0' },
+	tags: [{ name: 'store' }, { name: 'pets' }],
+	paths: {},
+} as OpenApiDocument;
+
+const operation = (
+	operationId: string,
+	method: ParsedOperation['method'],
+	path: string,
+	extra: Partial<ParsedOperation> = {},
+): ParsedOperation => ({
+	operationId,
+	method,
+	path,
+	summary: '',
+	description: '',
+	parameters: [],
+	requestBody: undefined,
+	...extra,
+});
+
+const operations = [
+	operation('listPets', 'get', '/pets', { summary: 'List pets', tags: ['pets'] }),
+	operation('getHealth', 'get', '/health'),
+	operation('getInventory', 'get', '/store/inventory', { tags: ['store'] }),
+	operation('findPetsByTags', 'get', '/pets/findByTags', {
+		summary: 'Find pets by tags',
+		tags: ['pets'],
+		deprecated: true,
+	}),
+	operation('listUsers', 'get', '/users', { tags: ['users'] }),
+];
+
+describe('searchOperations', () => {
+	it('groups operations by tag in the order the spec declares them', () => {
+		const results = searchOperations(spec, operations);
+
+		expect(results.map((r) => r.value)).toEqual([
+			'getInventory',
+			'listPets',
+			'findPetsByTags',
+			'listUsers',
+			'getHealth',
+		]);
+		expect(results[0]).toEqual({
+			name: 'store › getInventory',
+			value: 'getInventory',
+			description: 'GET /store/inventory',
+		});
+		expect(results[4].name).toBe('Other › getHealth');
+	});
+
+	it('marks deprecated operations', () => {
+		const [result] = searchOperations(spec, operations, 'findPetsByTags');
+
+		expect(result.name).toBe('pets › Find pets by tags (Deprecated)');
+		expect(result.description).toBe('Deprecated. GET /pets/findByTags');
+	});
+
+	it.each([
+		['operationId', 'getinv', ['getInventory']],
+		['summary', 'list pets', ['listPets']],
+		['path', '/store/', ['getInventory']],
+		['tag', 'users', ['listUsers']],
+		['every word', 'pets tags', ['findPetsByTags']],
+	])('filters by %s', (_, filter, expected) => {
+		expect(searchOperations(spec, operations, filter).map((r) => r.value)).toEqual(expected);
+	});
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	detectPaginationStrategies,
+	extractRecords,
+	paginate,
+	parseLinkHeader,
+	type PageFetcher,
+	type PageRequest,
+	type PageResponse,
+} from '../nodes/OpenApi/lib/pagination';
+import type { ParsedOperation, ParsedParameter } from '../nodes/OpenApi/lib/types';
+
+function listOperation(queryNames: string[] = []): ParsedOperation {
+	return {
+		operationId: 'listPets',
+		method: 'get',
+		path: '/pets',
+		summary: '',
+		description: '',
+		parameters: queryNames.map(
+			(name): ParsedParameter => ({
+				name,
+				in: 'query',
+				required: false,
+				schema: { type: 'string' },
+				description: '',
+			}),
+		),
+		requestBody: undefined,
+	};
+}
+
+function page(body: unknown, headers: Record<string, unknown> = {}): PageResponse {
+	return { url: 'https://api.example.com/pets', body, headers };
+}
+
+describe('pagination', () => {
+	describe('detectPaginationStrategies', () => {
+		it('follows links first, then parameters the operation declares', () => {
+			expect(detectPaginationStrategies(listOperation(['per_page', 'page']))).toEqual([
+				{ type: 'linkHeader' },
+				{ type: 'nextUrl' },
+				{ type: 'page', parameter: 'page' },
+			]);
+			expect(detectPaginationStrategies(listOperation(['starting_after', 'offset']))).toEqual([
+				{ type: 'linkHeader' },
+				{ type: 'nextUrl' },
+				{ type: 'cursor', parameter: 'starting_after' },
+				{ type: 'offset', parameter: 'offset' },
+			]);
+		});
+	});
+
+	describe('parseLinkHeader', () => {
+		it('parses RFC 8288 links by relation', () => {
+			expect(
+				parseLinkHeader(
+					'<https://api.example.com/pets?page=3>; rel="next", <https://api.example.com/pets?page=1>; rel="prev first"',
+				),
+			).toEqual({
+				next: 'https://api.example.com/pets?page=3',
+				prev: 'https://api.example.com/pets?page=1',
+				first: 'https://api.example.com/pets?page=1',
+			});
+		});
+	});
+
+	describe('extractRecords', () => {
+		it('finds the records array in common envelopes', () => {
+			expect(extractRecords([1, 2])).toEqual([1, 2]);
+			expect(extractRecords({ data: [1], meta: {} })).toEqual([1]);
+			expect(extractRecords({ pets: [1, 2], total: 2 })).toEqual([1, 2]);
+			expect(extractRecords({ id: 1 })).toEqual([{ id: 1 }]);
+		});
+
+		it('uses the configured records path', () => {
+			expect(extractRecords({ result: { pets: [1, 2] } }, 'result.pets')).toEqual([1, 2]);
+		});
+	});
+
+	describe('paginate', () => {
+		it('follows Link headers', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) =>
+				'url' in request
+					? page([3])
+					: page([1, 2], { link: '<https://api.example.com/pets?page=2>; rel="next"' }),
+			);
+
+			const records = await paginate(listOperation(), {}, {}, fetchPage);
+
+			expect(records).toEqual([1, 2, 3]);
+			expect(fetchPage).toHaveBeenLastCalledWith({ url: 'https://api.example.com/pets?page=2' });
+		});
+
+		it('resolves relative next URLs from the body', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) =>
+				'url' in request
+					? page({ results: [2], next: null })
+					: page({ results: [1], next: '/pets?cursor=abc' }),
+			);
+
+			expect(await paginate(listOperation(), {}, {}, fetchPage)).toEqual([1, 2]);
+			expect(fetchPage).toHaveBeenLastCalledWith({
+				url: 'https://api.example.com/pets?cursor=abc',
+			});
+		});
+
+		it('passes cursors from the body back as a query parameter', async () => {
+			const pages: Record<string, PageResponse> = {
+				'': page({ data: [1], next_cursor: 'c2' }),
+				c2: page({ data: [2], next_cursor: 'c3' }),
+				c3: page({ data: [3], next_cursor: null }),
+			};
+			const fetchPage = vi.fn<PageFetcher>(
+				async (request) => pages[String(paramsOf(request).cursor ?? '')],
+			);
+
+			expect(await paginate(listOperation(['cursor']), {}, {}, fetchPage)).toEqual([1, 2, 3]);
+		});
+
+		it('increments page numbers until a short page', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) => {
+				const pageNumber = Number(paramsOf(request).page ?? 1);
+				return page(pageNumber < 3 ? [pageNumber * 10, pageNumber * 10 + 1] : [30]);
+			});
+
+			const records = await paginate(
+				listOperation(['page', 'per_page']),
+				{},
+				{ pageSize: 2 },
+				fetchPage,
+			);
+
+			expect(records).toEqual([10, 11, 20, 21, 30]);
+			expect(fetchPage.mock.calls.map(([request]) => request)).toEqual([
+				{ params: { per_page: 2 } },
+				{ params: { per_page: 2, page: 2 } },
+				{ params: { per_page: 2, page: 3 } },
+			]);
+		});
+
+		it('advances offsets by the number of records received', async () => {
+			const data = [1, 2, 3, 4, 5];
+			const fetchPage = vi.fn<PageFetcher>(async (request) => {
+				const offset = Number(paramsOf(request).offset ?? 0);
+				return page(data.slice(offset, offset + 2));
+			});
+
+			expect(
+				await paginate(listOperation(['offset', 'limit']), { limit: 2 }, {}, fetchPage),
+			).toEqual(data);
+		});
+
+		it('stops at the record and page limits', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) => {
+				const pageNumber = Number(paramsOf(request).page ?? 1);
+				return page([pageNumber, pageNumber]);
+			});
+
+			expect(await paginate(listOperation(['page']), {}, { maxRecords: 5 }, fetchPage)).toEqual([
+				1, 1, 2, 2, 3,
+			]);
+			expect(await paginate(listOperation(['page']), {}, { maxPages: 2 }, fetchPage)).toEqual([
+				1, 1, 2, 2,
+			]);
+		});
+
+		it('stops when the API repeats a next link', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async () => page({ items: [1], next: '/pets?page=2' }));
+
+			expect(await paginate(listOperation(), {}, {}, fetchPage)).toEqual([1]);
+			expect(fetchPage).toHaveBeenCalledTimes(2);
+		});
+
+		it('stops when a page repeats the previous one', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) => {
+				const pageNumber = Math.min(Number(paramsOf(request).page ?? 1), 2);
+				return page([pageNumber * 10, pageNumber * 10 + 1]);
+			});
+
+			expect(await paginate(listOperation(['page']), {}, {}, fetchPage)).toEqual([10, 11, 20, 21]);
+			expect(fetchPage).toHaveBeenCalledTimes(3);
+		});
+
+		it('stops when the body has no single records array', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) =>
+				page({ total: 2, page: paramsOf(request).page ?? 1, pets: [1, 2], tags: ['a'] }),
+			);
+
+			expect(await paginate(listOperation(['page']), {}, {}, fetchPage)).toHaveLength(1);
+			expect(fetchPage).toHaveBeenCalledTimes(1);
+		});
+
+		it('fetches every page when no page limit is set', async () => {
+			const fetchPage = vi.fn<PageFetcher>(async (request) => {
+				const pageNumber = Number(paramsOf(request).page ?? 1);
+				return page(pageNumber <= 150 ? [pageNumber] : []);
+			});
+
+			const records = await paginate(listOperation(['page']), {}, {}, fetchPage);
+
+			expect(records).toHaveLength(150);
+			expect(fetchPage).toHaveBeenCalledTimes(151);
+		});
+	});
+});
+
+function paramsOf(request: PageRequest) {
+	return 'params' in request ? request.params : {};
+}
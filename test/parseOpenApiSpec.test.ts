@@ -26,6 +26,27 @@ describe('parseOpenApiSpec', () => {
 		expect(result.info.title).toBe('Papyria API');
 	});
 
+	it('parses a valid OpenAPI spec from YAML string', async () => {
+		const specContent = [
+			'openapi: 3.0.3',
+			'info:',
+			'  title: YAML API',
+			'  version: 1.0.0',
+			'paths:',
+			'  /health:',
+			'    get:',
+			'      operationId: getHealth',
+			'      responses:',
+			"        '200':",
+			'          description: OK',
+		].join('\n');
+
+		const result = await parseOpenApiSpec(specContent);
+
+		expect(result.info.title).toBe('YAML API');
+		expect(result.paths?.['/health']?.get?.operationId).toBe('getHealth');
+	});
+
 	it('dereferences $ref pointers', async () => {
 		const specPath = join(__dirname, 'fixtures/petstore.json');
 		const specContent = await readFile(specPath, 'utf-8');
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getBodyFormat,
+	getRequestBodyContent,
+	MEDIA_TYPE_PATTERNS,
+	normalizeMediaType,
+} from '../nodes/OpenApi/lib/requestBody';
+import type { ParsedRequestBody } from '../nodes/OpenApi/lib/types';
+
+describe('getRequestBodyContent', () => {
+	const jsonSchema = { type: 'object', properties: { url: { type: 'string' } } } as const;
+	const formSchema = { type: 'object', properties: { file: { type: 'string' } } } as const;
+	const requestBody: ParsedRequestBody = {
+		contentType: 'application/json',
+		schema: jsonSchema,
+		required: true,
+		contents: [
+			{ contentType: 'multipart/form-data', schema: formSchema },
+			{ contentType: 'application/json', schema: jsonSchema },
+		],
+	};
+
+	it('returns the chosen media type with its schema', () => {
+		expect(getRequestBodyContent(requestBody, 'multipart/form-data')).toEqual({
+			contentType: 'multipart/form-data',
+			schema: formSchema,
+		});
+	});
+
+	it('matches the chosen media type regardless of case', () => {
+		expect(getRequestBodyContent(requestBody, 'Multipart/Form-Data').contentType).toBe(
+			'multipart/form-data',
+		);
+	});
+
+	it('falls back to the preferred media type', () => {
+		expect(getRequestBodyContent(requestBody, '')).toEqual({
+			contentType: 'application/json',
+			schema: jsonSchema,
+		});
+		expect(getRequestBodyContent(requestBody, 'application/xml').contentType).toBe(
+			'application/json',
+		);
+	});
+});
+
+describe('getBodyFormat', () => {
+	it.each([
+		['application/json', 'json'],
+		['application/json; charset=utf-8', 'json'],
+		['application/vnd.api+json', 'json'],
+		['application/merge-patch+json', 'json'],
+		['application/json-patch+json', 'json'],
+		['application/xml', 'xml'],
+		['text/xml', 'xml'],
+		['application/atom+xml', 'xml'],
+		['application/x-www-form-urlencoded', 'form'],
+		['multipart/form-data', 'multipart'],
+		['text/plain', 'text'],
+		['text/csv', 'text'],
+		['application/octet-stream', 'binary'],
+		['image/png', 'binary'],
+		['*/*', 'binary'],
+	])('classifies %s as %s', (mediaType, format) => {
+		expect(getBodyFormat(mediaType)).toBe(format);
+	});
+
+	it('matches each media type with exactly one display pattern', () => {
+		for (const mediaType of ['application/vnd.api+json', 'text/xml', 'text/csv', 'image/png']) {
+			const matches = Object.entries(MEDIA_TYPE_PATTERNS).filter(([, pattern]) =>
+				new RegExp(pattern).test(mediaType),
+			);
+			expect(matches.map(([format]) => format)).toEqual([getBodyFormat(mediaType)]);
+		}
+	});
+
+	it('matches no display pattern before a content type is chosen', () => {
+		for (const pattern of Object.values(MEDIA_TYPE_PATTERNS)) {
+			expect(new RegExp(pattern).test('')).toBe(false);
+		}
+	});
+
+	it('classifies mixed-case media types the same in display patterns and at runtime', () => {
+		for (const mediaType of ['Application/JSON', 'Text/XML', 'Multipart/Form-Data']) {
+			const matches = Object.entries(MEDIA_TYPE_PATTERNS).filter(([, pattern]) =>
+				new RegExp(pattern).test(normalizeMediaType(mediaType)),
+			);
+			expect(matches.map(([format]) => format)).toEqual([getBodyFormat(mediaType)]);
+		}
+	});
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { getServers, resolveServerUrl, selectServer } from '../nodes/OpenApi/lib/resolveServer';
+import { extractOperations } from '../nodes/OpenApi/lib/extractOperations';
+import type { OpenApiDocument, OpenApiServer } from '../nodes/OpenApi/lib/types';
+
+describe('resolveServer', () => {
+	const templated: OpenApiServer = {
+		url: 'https://{region}.api.example.com/{version}',
+		variables: {
+			region: { default: 'eu', enum: ['eu', 'us'] },
+			version: { default: 'v1' },
+		},
+	};
+
+	const spec: OpenApiDocument = {
+		openapi: '3.0.3',
+		info: { title: 'Test', version: '1.0.0' },
+		servers: [{ url: 'https://api.example.com' }, templated],
+		paths: {
+			'/pets': {
+				get: { operationId: 'listPets', responses: {} },
+			},
+			'/files': {
+				servers: [{ url: 'https://files.example.com' }],
+				get: { operationId: 'listFiles', responses: {} },
+				post: {
+					operationId: 'uploadFile',
+					servers: [{ url: 'https://upload.example.com' }],
+					responses: {},
+				},
+			},
+		},
+	};
+
+	it('uses default values for server variables', () => {
+		expect(resolveServerUrl(templated)).toBe('https://eu.api.example.com/v1');
+	});
+
+	it('substitutes provided server variables', () => {
+		expect(resolveServerUrl(templated, { region: 'us', version: 'v2' })).toBe(
+			'https://us.api.example.com/v2',
+		);
+	});
+
+	it('rejects values outside the variable enum', () => {
+		expect(() => resolveServerUrl(templated, { region: 'ap' })).toThrow(
+			'Server variable "region" must be one of eu, us, got "ap"',
+		);
+	});
+
+	it('rejects undeclared variables without a value', () => {
+		expect(() => resolveServerUrl({ url: 'https://{tenant}.example.com' })).toThrow(
+			'Server variable "tenant" has no value',
+		);
+	});
+
+	it('resolves relative server URLs against the spec URL', () => {
+		const specUrl = 'https://docs.example.com/specs/openapi.json';
+		expect(resolveServerUrl({ url: '/api/v2' }, {}, specUrl)).toBe(
+			'https://docs.example.com/api/v2',
+		);
+		expect(resolveServerUrl({ url: 'v2' }, {}, specUrl)).toBe('https://docs.example.com/specs/v2');
+		expect(resolveServerUrl({ url: 'https://api.example.com/v1' }, {}, specUrl)).toBe(
+			'https://api.example.com/v1',
+		);
+	});
+
+	it('defaults to the "/" server when the spec declares none', () => {
+		const servers = getServers({ ...spec, servers: [] });
+		expect(servers).toEqual([{ url: '/' }]);
+		expect(resolveServerUrl(servers[0], {}, 'https://api.example.com/openapi.json')).toBe(
+			'https://api.example.com/',
+		);
+	});
+
+	it('selects the server by URL and falls back to the first one', () => {
+		const servers = getServers(spec);
+		expect(selectServer(servers, templated.url)).toBe(templated);
+		expect(selectServer(servers, 'https://unknown.example.com')?.url).toBe(
+			'https://api.example.com',
+		);
+		expect(selectServer([], undefined)).toBeUndefined();
+	});
+
+	it('prefers operation-level over path-level over spec-level servers', () => {
+		const operations = extractOperations(spec);
+		const serverUrl = (operationId: string) =>
+			getServers(
+				spec,
+				operations.find((op) => op.operationId === operationId),
+			)[0].url;
+
+		expect(serverUrl('listPets')).toBe('https://api.example.com');
+		expect(serverUrl('listFiles')).toBe('https://files.example.com');
+		expect(serverUrl('uploadFile')).toBe('https://upload.example.com');
+	});
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { Buffer } from 'node:buffer';
+import {
+	decodeResponseBody,
+	expectsBinaryResponse,
+	getFileName,
+	isBinaryMediaType,
+} from '../nodes/OpenApi/lib/responseBody';
+import type { ParsedOperation, ParsedResponse } from '../nodes/OpenApi/lib/types';
+
+describe('responseBody', () => {
+	describe('isBinaryMediaType', () => {
+		it('treats text, JSON and XML media types as text', () => {
+			for (const mediaType of [
+				'application/json',
+				'application/problem+json; charset=utf-8',
+				'application/atom+xml',
+				'text/csv',
+			]) {
+				expect(isBinaryMediaType(mediaType)).toBe(false);
+			}
+		});
+
+		it('treats everything else as binary', () => {
+			for (const mediaType of [
+				'application/octet-stream',
+				'application/pdf',
+				'image/png',
+				'application/zip',
+			]) {
+				expect(isBinaryMediaType(mediaType)).toBe(true);
+			}
+		});
+	});
+
+	describe('expectsBinaryResponse', () => {
+		const operation = (responses: ParsedResponse[]): ParsedOperation => ({
+			operationId: 'download',
+			method: 'get',
+			path: '/files/{id}',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+			responses,
+		});
+
+		it('detects operations whose success responses are all binary', () => {
+			expect(
+				expectsBinaryResponse(
+					operation([
+						{ statusCode: '200', contentType: 'application/pdf', schema: undefined },
+						{ statusCode: '404', contentType: 'application/json', schema: undefined },
+					]),
+				),
+			).toBe(true);
+			expect(
+				expectsBinaryResponse(
+					operation([
+						{ statusCode: '200', contentType: '*/*', schema: { type: 'string', format: 'binary' } },
+					]),
+				),
+			).toBe(true);
+		});
+
+		it('ignores operations that can return JSON', () => {
+			expect(
+				expectsBinaryResponse(
+					operation([
+						{ statusCode: '200', contentType: 'image/png', schema: undefined },
+						{ statusCode: '200', contentType: 'application/json', schema: undefined },
+					]),
+				),
+			).toBe(false);
+			expect(expectsBinaryResponse(operation([]))).toBe(false);
+		});
+	});
+
+	describe('decodeResponseBody', () => {
+		it('keeps binary payloads as buffers', () => {
+			const bytes = Buffer.from([0x25, 0x50, 0x44, 0x46, 0xff]);
+			expect(decodeResponseBody(bytes, 'application/pdf', false)).toEqual({
+				binary: true,
+				data: bytes,
+				mimeType: 'application/pdf',
+			});
+		});
+
+		it('parses JSON and decodes text', () => {
+			expect(decodeResponseBody(Buffer.from('{"id":1}'), 'application/json', true)).toEqual({
+				binary: false,
+				body: { id: 1 },
+			});
+			expect(decodeResponseBody(Buffer.from('<pet/>'), 'application/xml', false)).toEqual({
+				binary: false,
+				body: '<pet/>',
+			});
+		});
+
+		it('falls back to the spec when the server sends no content type', () => {
+			expect(decodeResponseBody(Buffer.from('abc'), undefined, true)).toMatchObject({
+				binary: true,
+			});
+			expect(decodeResponseBody(Buffer.from('[1]'), undefined, false)).toEqual({
+				binary: false,
+				body: [1],
+			});
+		});
+
+		it('passes through bodies that are already decoded', () => {
+			expect(decodeResponseBody({ id: 1 }, 'application/json', false)).toEqual({
+				binary: false,
+				body: { id: 1 },
+			});
+		});
+	});
+
+	describe('getFileName', () => {
+		it('reads the filename from Content-Disposition', () => {
+			expect(getFileName('attachment; filename="report 2024.pdf"')).toBe('report 2024.pdf');
+			expect(getFileName('attachment; filename=report.pdf')).toBe('report.pdf');
+			expect(
+				getFileName(`attachment; filename="fallback.pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf`),
+			).toBe('résumé.pdf');
+		});
+
+		it('falls back to the last URL segment with an extension', () => {
+			expect(getFileName(undefined, 'https://api.example.com/files/invoice.pdf?x=1')).toBe(
+				'invoice.pdf',
+			);
+			expect(getFileName(undefined, 'https://api.example.com/files/42')).toBeUndefined();
+		});
+	});
+});
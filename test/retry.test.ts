@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	canRetry,
+	DEFAULT_RETRY_OPTIONS,
+	getRetryDelay,
+	parseStatusCodes,
+	withRetry,
+	type RetryOptions,
+} from '../nodes/OpenApi/lib/retry';
+import type { ParsedOperation } from '../nodes/OpenApi/lib/types';
+
+describe('retry', () => {
+	const options: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, jitter: 0 };
+	const now = Date.parse('2024-01-01T00:00:00Z');
+
+	it('parses status codes and ranges', () => {
+		expect(parseStatusCodes('429, 502-504, nope')).toEqual([429, 502, 503, 504]);
+		expect(DEFAULT_RETRY_OPTIONS.retryableStatusCodes).toContain(429);
+		expect(DEFAULT_RETRY_OPTIONS.retryableStatusCodes).toContain(503);
+		expect(DEFAULT_RETRY_OPTIONS.retryableStatusCodes).not.toContain(404);
+	});
+
+	it('only retries idempotent methods by default', () => {
+		const operation = (method: ParsedOperation['method']): ParsedOperation => ({
+			operationId: 'op',
+			method,
+			path: '/',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: undefined,
+		});
+
+		expect(canRetry(operation('get'), options)).toBe(true);
+		expect(canRetry(operation('put'), options)).toBe(true);
+		expect(canRetry(operation('delete'), options)).toBe(true);
+		expect(canRetry(operation('post'), options)).toBe(false);
+		expect(canRetry(operation('patch'), { ...options, retryNonIdempotent: true })).toBe(true);
+		expect(canRetry(operation('get'), { ...options, maxAttempts: 1 })).toBe(false);
+	});
+
+	describe('getRetryDelay', () => {
+		it('backs off exponentially with jitter', () => {
+			expect(getRetryDelay(1, options, {}, now)).toBe(1000);
+			expect(getRetryDelay(3, options, {}, now)).toBe(4000);
+			expect(getRetryDelay(20, options, {}, now)).toBe(60_000);
+			expect(getRetryDelay(1, { ...options, jitter: 0.5 }, {}, now, () => 0)).toBe(500);
+			expect(getRetryDelay(1, { ...options, jitter: 0.5 }, {}, now, () => 1)).toBe(1500);
+		});
+
+		it('honors Retry-After in seconds or as a date', () => {
+			expect(getRetryDelay(1, options, { 'retry-after': '7' }, now)).toBe(7000);
+			expect(
+				getRetryDelay(1, options, { 'Retry-After': 'Mon, 01 Jan 2024 00:00:30 GMT' }, now),
+			).toBe(30_000);
+		});
+
+		it('honors X-RateLimit-Reset as an epoch or a delta', () => {
+			expect(getRetryDelay(1, options, { 'x-ratelimit-reset': String(now / 1000 + 5) }, now)).toBe(
+				5000,
+			);
+			expect(getRetryDelay(1, options, { 'x-ratelimit-reset': '2' }, now)).toBe(2000);
+		});
+
+		it('gives up when the server asks to wait longer than the max delay', () => {
+			expect(getRetryDelay(1, options, { 'retry-after': '3600' }, now)).toBeUndefined();
+		});
+	});
+
+	describe('withRetry', () => {
+		const sleep = vi.fn(async () => {});
+
+		it('retries retryable responses until they succeed', async () => {
+			const statuses = [429, 503, 200];
+			const send = vi.fn(async () => ({ statusCode: statuses.shift()! }));
+
+			const result = await withRetry(
+				send,
+				options,
+				(outcome) => ('result' in outcome ? outcome.result : {}),
+				sleep,
+			);
+
+			expect(result).toEqual({ statusCode: 200 });
+			expect(send).toHaveBeenCalledTimes(3);
+			expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+		});
+
+		it('rethrows the last error after the max attempts', async () => {
+			const error = Object.assign(new Error('Service Unavailable'), { statusCode: 503 });
+			const send = vi.fn(async () => {
+				throw error;
+			});
+
+			await expect(
+				withRetry(
+					send,
+					options,
+					(outcome) => ('error' in outcome ? { statusCode: 503 } : {}),
+					sleep,
+				),
+			).rejects.toBe(error);
+			expect(send).toHaveBeenCalledTimes(3);
+		});
+
+		it('retries network errors but not client errors', async () => {
+			const send = vi
+				.fn<() => Promise<string>>()
+				.mockRejectedValueOnce(new Error('reset'))
+				.mockResolvedValueOnce('ok');
+			expect(
+				await withRetry(
+					send,
+					options,
+					(outcome) => ('error' in outcome ? { errorCode: 'ECONNRESET' } : { statusCode: 200 }),
+					sleep,
+				),
+			).toBe('ok');
+
+			const notFound = vi.fn(async () => ({ statusCode: 404 }));
+			await withRetry(
+				notFound,
+				options,
+				(outcome) => ('result' in outcome ? outcome.result : {}),
+				sleep,
+			);
+			expect(notFound).toHaveBeenCalledTimes(1);
+		});
+	});
+});
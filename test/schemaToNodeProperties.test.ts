@@ -259,4 +259,56 @@ describe('schemaToNodeProperties', () => {
 		expect(properties[1].displayName).toBe('Last Name');
 		expect(properties[2].displayName).toBe('Email Address');
 	});
+
+	it('merges allOf members', () => {
+		const schema = {
+			allOf: [
+				{ type: 'object', properties: { id: { type: 'integer' } } },
+				{ properties: { name: { type: 'string' } } },
+			],
+		} as OpenApiSchema;
+
+		const properties = schemaToNodeProperties(schema, 'create');
+
+		expect(properties.map((p) => p.name)).toEqual(['id', 'name']);
+	});
+
+	it('adds a variant selector and a hidden discriminator for oneOf bodies', () => {
+		const schema = {
+			oneOf: [
+				{ properties: { type: { type: 'string' }, meow: { type: 'boolean' } } },
+				{ properties: { type: { type: 'string' }, bark: { type: 'string' } } },
+			],
+			discriminator: {
+				propertyName: 'type',
+				mapping: { cat: '#/components/schemas/Cat', dog: '#/components/schemas/Dog' },
+			},
+		} as OpenApiSchema;
+
+		const properties = schemaToNodeProperties(schema, 'create');
+
+		expect(properties[0]).toMatchObject({
+			name: 'variant',
+			type: 'options',
+			default: '',
+			options: [
+				{ name: 'cat', value: 'cat' },
+				{ name: 'dog', value: 'dog' },
+			],
+		});
+		expect(properties.slice(1).map((p) => [p.name, p.type])).toEqual([
+			['type', 'hidden'],
+			['meow', 'boolean'],
+			['type', 'hidden'],
+			['bark', 'string'],
+		]);
+		expect(properties[1].displayOptions).toEqual({
+			show: { operation: ['create'], variant: ['', 'cat'] },
+		});
+		expect(properties[3]).toMatchObject({
+			default: 'dog',
+			displayOptions: { show: { operation: ['create'], variant: ['dog'] } },
+			routing: { send: { type: 'body', property: 'type' } },
+		});
+	});
 });
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+	serializeHeaderParameter,
+	serializePathParameter,
+	serializeQueryParameter,
+} from '../nodes/OpenApi/lib/serializeParameter';
+import type { ParsedParameter } from '../nodes/OpenApi/lib/types';
+
+function param(overrides: Partial<ParsedParameter>): ParsedParameter {
+	return {
+		name: 'id',
+		in: 'query',
+		required: false,
+		schema: { type: 'string' },
+		description: '',
+		...overrides,
+	};
+}
+
+const array = [3, 4, 5];
+const object = { role: 'admin', firstName: 'Alex' };
+const arraySchema = { type: 'array' as const, items: { type: 'integer' as const } };
+const objectSchema = { type: 'object' as const };
+
+describe('serializePathParameter', () => {
+	it.each([
+		['simple', false, 5, '5'],
+		['simple', false, array, '3,4,5'],
+		['simple', false, object, 'role,admin,firstName,Alex'],
+		['simple', true, object, 'role=admin,firstName=Alex'],
+		['label', false, 5, '.5'],
+		['label', false, array, '.3,4,5'],
+		['label', true, array, '.3.4.5'],
+		['label', false, object, '.role,admin,firstName,Alex'],
+		['label', true, object, '.role=admin.firstName=Alex'],
+		['matrix', false, 5, ';id=5'],
+		['matrix', false, array, ';id=3,4,5'],
+		['matrix', true, array, ';id=3;id=4;id=5'],
+		['matrix', false, object, ';id=role,admin,firstName,Alex'],
+		['matrix', true, object, ';role=admin;firstName=Alex'],
+	] as const)('serializes %s (explode=%s) %j as %s', (style, explode, value, expected) => {
+		const schema = Array.isArray(value)
+			? arraySchema
+			: typeof value === 'object'
+				? objectSchema
+				: { type: 'integer' as const };
+		expect(serializePathParameter(param({ in: 'path', style, explode, schema }), value)).toBe(
+			expected,
+		);
+	});
+
+	it('defaults to the simple style', () => {
+		expect(serializePathParameter(param({ in: 'path', schema: arraySchema }), array)).toBe('3,4,5');
+	});
+
+	it('percent-encodes values', () => {
+		expect(serializePathParameter(param({ in: 'path' }), 'a/b c')).toBe('a%2Fb%20c');
+	});
+});
+
+describe('serializeQueryParameter', () => {
+	it.each([
+		['form', true, 5, ['id=5']],
+		['form', true, array, ['id=3', 'id=4', 'id=5']],
+		['form', false, array, ['id=3,4,5']],
+		['form', true, object, ['role=admin', 'firstName=Alex']],
+		['form', false, object, ['id=role,admin,firstName,Alex']],
+		['spaceDelimited', false, array, ['id=3%204%205']],
+		['pipeDelimited', false, array, ['id=3|4|5']],
+		['deepObject', true, object, ['id[role]=admin', 'id[firstName]=Alex']],
+	] as const)('serializes %s (explode=%s) %j', (style, explode, value, expected) => {
+		const schema = Array.isArray(value)
+			? arraySchema
+			: typeof value === 'object'
+				? objectSchema
+				: { type: 'integer' as const };
+		expect(serializeQueryParameter(param({ style, explode, schema }), value)).toEqual(expected);
+	});
+
+	it('defaults to exploded form style', () => {
+		expect(serializeQueryParameter(param({ schema: arraySchema }), array)).toEqual([
+			'id=3',
+			'id=4',
+			'id=5',
+		]);
+	});
+
+	it('parses JSON text for array and object schemas', () => {
+		expect(
+			serializeQueryParameter(param({ explode: false, schema: arraySchema }), '[3,4,5]'),
+		).toEqual(['id=3,4,5']);
+		expect(
+			serializeQueryParameter(param({ style: 'deepObject', schema: objectSchema }), '{"a":"b"}'),
+		).toEqual(['id[a]=b']);
+	});
+
+	it('splits comma-separated text for array schemas', () => {
+		expect(serializeQueryParameter(param({ schema: arraySchema }), 'a,b')).toEqual([
+			'id=a',
+			'id=b',
+		]);
+	});
+
+	it('percent-encodes reserved characters unless allowReserved is set', () => {
+		expect(serializeQueryParameter(param({}), 'a/b?c')).toEqual(['id=a%2Fb%3Fc']);
+		expect(serializeQueryParameter(param({ allowReserved: true }), 'a/b?c')).toEqual(['id=a/b?c']);
+	});
+
+	it('omits empty arrays', () => {
+		expect(serializeQueryParameter(param({ schema: arraySchema }), [])).toEqual([]);
+	});
+});
+
+describe('serializeHeaderParameter', () => {
+	it('joins arrays with commas without encoding', () => {
+		expect(
+			serializeHeaderParameter(param({ in: 'header', schema: arraySchema }), ['a b', 'c']),
+		).toBe('a b,c');
+	});
+
+	it('serializes exploded objects as key=value pairs', () => {
+		expect(
+			serializeHeaderParameter(
+				param({ in: 'header', explode: true, schema: objectSchema }),
+				object,
+			),
+		).toBe('role=admin,firstName=Alex');
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+	clearSpecCache,
+	loadCachedSpec,
+	MAX_CACHED_SOURCES,
+	type SpecFetcher,
+	type SpecFetchResult,
+} from '../nodes/OpenApi/lib/specCache';
+
+describe('loadCachedSpec', () => {
+	const url = 'https://api.example.com/openapi.json';
+	let petstore: string;
+
+	beforeEach(async () => {
+		clearSpecCache();
+		vi.useFakeTimers();
+		petstore = await readFile(join(__dirname, 'fixtures/petstore.json'), 'utf-8');
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function fetcher(...results: SpecFetchResult[]) {
+		return vi.fn<SpecFetcher>(async () => {
+			const result = results.shift();
+			if (!result) throw new Error('Unexpected fetch');
+			return result;
+		});
+	}
+
+	it('indexes operations by operationId', async () => {
+		const fetch = fetcher({ notModified: false, content: petstore });
+
+		const loaded = await loadCachedSpec(url, 60_000, fetch);
+
+		expect(loaded.operationsById.get('getPet')?.path).toBe('/pets/{petId}');
+		expect(loaded.operationsById.size).toBe(loaded.operations.length);
+	});
+
+	it('reuses the parsed spec within the TTL', async () => {
+		const fetch = fetcher({ notModified: false, content: petstore });
+
+		const first = await loadCachedSpec(url, 60_000, fetch);
+		vi.advanceTimersByTime(30_000);
+		const second = await loadCachedSpec(url, 60_000, fetch);
+
+		expect(second).toBe(first);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('shares one fetch between concurrent loads', async () => {
+		const fetch = fetcher({ notModified: false, content: petstore });
+
+		const [first, second] = await Promise.all([
+			loadCachedSpec(url, 60_000, fetch),
+			loadCachedSpec(url, 60_000, fetch),
+		]);
+
+		expect(second).toBe(first);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('revalidates with ETag and Last-Modified after the TTL', async () => {
+		const fetch = fetcher(
+			{
+				notModified: false,
+				content: petstore,
+				etag: '"v1"',
+				lastModified: 'Mon, 19 Oct 2026 10:00:00 GMT',
+			},
+			{ notModified: true },
+		);
+
+		const first = await loadCachedSpec(url, 60_000, fetch);
+		vi.advanceTimersByTime(61_000);
+		const second = await loadCachedSpec(url, 60_000, fetch);
+
+		expect(second).toBe(first);
+		expect(fetch).toHaveBeenLastCalledWith({
+			etag: '"v1"',
+			lastModified: 'Mon, 19 Oct 2026 10:00:00 GMT',
+		});
+	});
+
+	it('skips parsing when the content hash is unchanged', async () => {
+		const fetch = fetcher(
+			{ notModified: false, content: petstore },
+			{ notModified: false, content: petstore },
+		);
+
+		const first = await loadCachedSpec(url, 0, fetch);
+		const second = await loadCachedSpec(url, 0, fetch);
+
+		expect(second).toBe(first);
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('parses again when the content changes', async () => {
+		const changed = petstore.replace('Petstore API', 'Petstore API v2');
+		const fetch = fetcher(
+			{ notModified: false, content: petstore },
+			{ notModified: false, content: changed },
+		);
+
+		await loadCachedSpec(url, 0, fetch);
+		const second = await loadCachedSpec(url, 0, fetch);
+
+		expect(second.spec.info.title).toBe('Petstore API v2');
+	});
+
+	it('does not cache specs that fail to parse', async () => {
+		const fetch = fetcher(
+			{ notModified: false, content: '{"invalid": true}' },
+			{ notModified: false, content: petstore },
+		);
+
+		await expect(loadCachedSpec(url, 60_000, fetch)).rejects.toThrow();
+		const loaded = await loadCachedSpec(url, 60_000, fetch);
+
+		expect(loaded.spec.info.title).toBe('Petstore API');
+	});
+
+	it('drops the least recently used sources beyond the limit', async () => {
+		const fetches = Array.from({ length: MAX_CACHED_SOURCES + 1 }, (_, index) =>
+			fetcher(
+				...Array.from({ length: 2 }, () => ({
+					notModified: false as const,
+					content: petstore.replace('Petstore API', `Petstore API ${index}`),
+				})),
+			),
+		);
+
+		for (const [index, fetch] of fetches.entries()) {
+			await loadCachedSpec(`text:${index}`, 60_000, fetch);
+		}
+		await loadCachedSpec(`text:${MAX_CACHED_SOURCES}`, 60_000, fetches[MAX_CACHED_SOURCES]);
+		const reloaded = await loadCachedSpec('text:0', 60_000, fetches[0]);
+
+		expect(fetches[MAX_CACHED_SOURCES]).toHaveBeenCalledTimes(1);
+		expect(fetches[0]).toHaveBeenCalledTimes(2);
+		expect(reloaded.spec.info.title).toBe('Petstore API 0');
+	});
+});
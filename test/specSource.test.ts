@@ -0,0 +1,93 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtemp, readFile, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	createSpecFetcher,
+	getSpecCacheKey,
+	getSpecSource,
+	getSpecUrl,
+	isFilePathBlocked,
+} from '../nodes/OpenApi/lib/specSource';
+
+describe('specSource', () => {
+	it('defaults to the URL source', () => {
+		const source = getSpecSource({ specUrl: 'https://api.example.com/openapi.json' });
+
+		expect(source).toEqual({ type: 'url', url: 'https://api.example.com/openapi.json' });
+		expect(getSpecCacheKey(source)).toBe('https://api.example.com/openapi.json');
+		expect(getSpecUrl(source)).toBe('https://api.example.com/openapi.json');
+	});
+
+	it('fetches URL sources with the given fetcher', async () => {
+		const fetchUrl = vi.fn(async () => ({ notModified: false as const, content: '{}' }));
+		const source = getSpecSource({ specSource: 'url', specUrl: 'https://x.example.com/spec' });
+
+		await createSpecFetcher(source, fetchUrl)({ etag: '"v1"' });
+
+		expect(fetchUrl).toHaveBeenCalledWith('https://x.example.com/spec', { etag: '"v1"' });
+	});
+
+	it('returns pasted text and keys it by content hash', async () => {
+		const source = getSpecSource({ specSource: 'text', specContent: 'openapi: 3.0.3' });
+		const other = getSpecSource({ specSource: 'text', specContent: 'openapi: 3.1.0' });
+
+		const result = await createSpecFetcher(source, vi.fn())({});
+
+		expect(result).toEqual({ notModified: false, content: 'openapi: 3.0.3' });
+		expect(getSpecCacheKey(source)).toMatch(/^text:[0-9a-f]{64}$/);
+		expect(getSpecCacheKey(source)).not.toBe(getSpecCacheKey(other));
+		expect(getSpecUrl(source)).toBeUndefined();
+	});
+
+	it('reads files and reports them unmodified while size and mtime match', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'openapi-'));
+		const path = join(dir, 'petstore.json');
+		const content = await readFile(join(__dirname, 'fixtures/petstore.json'), 'utf-8');
+		await writeFile(path, content);
+		const source = getSpecSource({ specSource: 'file', specFilePath: path });
+		const fetcher = createSpecFetcher(source, vi.fn());
+
+		const first = await fetcher({});
+		expect(first).toMatchObject({ notModified: false, content });
+
+		const etag = first.notModified ? undefined : first.etag;
+		expect(await fetcher({ etag })).toEqual({ notModified: true });
+		expect(getSpecCacheKey(source)).toBe(`file:${path}`);
+	});
+
+	it('applies n8n file access restrictions', () => {
+		const env = { N8N_USER_FOLDER: '/home/node', N8N_RESTRICT_FILE_ACCESS_TO: '/specs; /shared/' };
+
+		expect(isFilePathBlocked('/specs/petstore.json', env)).toBe(false);
+		expect(isFilePathBlocked('/shared/api/openapi.yaml', env)).toBe(false);
+		expect(isFilePathBlocked('/specs-other/openapi.yaml', env)).toBe(true);
+		expect(isFilePathBlocked('/etc/passwd', env)).toBe(true);
+		expect(isFilePathBlocked('/home/node/.n8n/config', { N8N_USER_FOLDER: '/home/node' })).toBe(
+			true,
+		);
+		expect(
+			isFilePathBlocked('/home/node/.n8n/config', {
+				N8N_USER_FOLDER: '/home/node',
+				N8N_BLOCK_FILE_ACCESS_TO_N8N_FILES: 'false',
+			}),
+		).toBe(false);
+	});
+
+	it('refuses to read blocked spec files', async () => {
+		const dir = await mkdtemp(join(tmpdir(), 'openapi-'));
+		const path = join(dir, 'petstore.json');
+		await writeFile(path, '{}');
+		vi.stubEnv('N8N_RESTRICT_FILE_ACCESS_TO', join(dir, 'allowed'));
+
+		try {
+			const fetcher = createSpecFetcher(
+				getSpecSource({ specSource: 'file', specFilePath: path }),
+				vi.fn(),
+			);
+			await expect(fetcher({})).rejects.toThrow('is not allowed');
+		} finally {
+			vi.unstubAllEnvs();
+		}
+	});
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { OpenAPIV3 } from 'openapi-types';
+import { parseOpenApiSpec } from '../nodes/OpenApi/lib/parseOpenApiSpec';
+import { extractOperations } from '../nodes/OpenApi/lib/extractOperations';
+
+describe('upgradeSwagger', () => {
+	async function loadSpec() {
+		const specPath = join(__dirname, 'fixtures/petstore-swagger2.json');
+		const specContent = await readFile(specPath, 'utf-8');
+		return (await parseOpenApiSpec(specContent)) as OpenAPIV3.Document;
+	}
+
+	it('upgrades Swagger 2.0 documents to OpenAPI 3', async () => {
+		const spec = await loadSpec();
+
+		expect(spec.openapi).toBe('3.0.3');
+		expect(spec).not.toHaveProperty('swagger');
+		expect(spec.info.title).toBe('Petstore Swagger API');
+	});
+
+	it('converts host, basePath and schemes to servers', async () => {
+		const spec = await loadSpec();
+
+		expect(spec.servers).toEqual([
+			{ url: 'https://petstore.example.com/v2' },
+			{ url: 'http://petstore.example.com/v2' },
+		]);
+	});
+
+	it('converts securityDefinitions to securitySchemes', async () => {
+		const spec = await loadSpec();
+
+		expect(spec.components?.securitySchemes).toMatchObject({
+			api_key: { type: 'apiKey', name: 'api_key', in: 'header' },
+			basicAuth: { type: 'http', scheme: 'basic' },
+			petstore_auth: {
+				type: 'oauth2',
+				flows: {
+					authorizationCode: {
+						authorizationUrl: 'https://petstore.example.com/oauth/authorize',
+						tokenUrl: 'https://petstore.example.com/oauth/token',
+						scopes: { 'write:pets': 'modify pets', 'read:pets': 'read pets' },
+					},
+				},
+			},
+		});
+	});
+
+	it('converts body parameters to a request body for each consumed media type', async () => {
+		const operations = extractOperations(await loadSpec());
+
+		const addPet = operations.find((op) => op.operationId === 'addPet');
+		expect(addPet?.requestBody).toMatchObject({
+			contentType: 'application/json',
+			required: true,
+			schema: { type: 'object', required: ['name'] },
+		});
+		expect(addPet?.parameters).toEqual([]);
+	});
+
+	it('converts formData parameters to a multipart request body', async () => {
+		const operations = extractOperations(await loadSpec());
+
+		const uploadImage = operations.find((op) => op.operationId === 'uploadImage');
+		const schema = {
+			type: 'object',
+			required: ['file'],
+			properties: {
+				caption: { type: 'string', description: 'Image caption' },
+				file: { type: 'string', format: 'binary' },
+			},
+		};
+		expect(uploadImage?.requestBody).toEqual({
+			contentType: 'multipart/form-data',
+			required: true,
+			schema,
+			contents: [{ contentType: 'multipart/form-data', schema }],
+		});
+		expect(uploadImage?.parameters).toMatchObject([
+			{ name: 'petId', in: 'path', required: true, schema: { type: 'integer', format: 'int64' } },
+		]);
+	});
+
+	it('converts collectionFormat to style and explode', async () => {
+		const operations = extractOperations(await loadSpec());
+
+		const findPets = operations.find((op) => op.operationId === 'findPetsByStatus');
+		expect(findPets?.parameters[0]).toMatchObject({
+			name: 'status',
+			in: 'query',
+			style: 'form',
+			explode: true,
+			schema: { type: 'array', items: { type: 'string' } },
+		});
+	});
+
+	it('converts response schemas using produces', async () => {
+		const spec = await loadSpec();
+
+		const upload = spec.paths['/pets/{petId}/image']?.post;
+		const response = upload?.responses['200'] as OpenAPIV3.ResponseObject;
+		expect(Object.keys(response.content ?? {})).toEqual(['application/xml']);
+	});
+});
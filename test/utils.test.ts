@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getSchemaType,
+	getValueAtPath,
+	isEmpty,
+	parseArray,
+	parseJson,
+	toDisplayName,
+} from '../nodes/OpenApi/lib/utils';
+
+describe('utils', () => {
+	it('treats only missing values and empty strings as empty', () => {
+		expect([undefined, null, ''].map(isEmpty)).toEqual([true, true, true]);
+		expect([0, false, ' ', []].map(isEmpty)).toEqual([false, false, false, false]);
+	});
+
+	it('reads the schema type, ignoring null and inferring objects', () => {
+		expect(getSchemaType({ type: ['null', 'integer'] })).toBe('integer');
+		expect(getSchemaType({ properties: { id: { type: 'string' } } })).toBe('object');
+		expect(getSchemaType({})).toBeUndefined();
+	});
+
+	it('reads dot paths and keys that contain dots', () => {
+		const body = { error: { message: 'Nope' }, '@odata.nextLink': '/next' };
+
+		expect(getValueAtPath(body, 'error.message')).toBe('Nope');
+		expect(getValueAtPath(body, '@odata.nextLink')).toBe('/next');
+		expect(getValueAtPath(body, 'error.code.value')).toBeUndefined();
+	});
+
+	it('turns camel case names into labels', () => {
+		expect(toDisplayName('petId')).toBe('Pet Id');
+		expect(toDisplayName('status')).toBe('Status');
+	});
+
+	it('parses JSON and falls back for invalid text', () => {
+		expect(parseJson('{"a":1}', undefined)).toEqual({ a: 1 });
+		expect(parseJson('oops', 'oops')).toBe('oops');
+	});
+
+	it('parses JSON arrays and leaves anything else undefined', () => {
+		expect(parseArray([1, 2])).toEqual([1, 2]);
+		expect(parseArray('[1, 2]')).toEqual([1, 2]);
+		expect(parseArray('[oops')).toBeUndefined();
+		expect(parseArray('a,b')).toBeUndefined();
+	});
+});
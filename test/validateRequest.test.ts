@@ -0,0 +1,247 @@
+import { Buffer } from 'node:buffer';
+import { describe, it, expect } from 'vitest';
+import { validateRequest } from '../nodes/OpenApi/lib/validateRequest';
+import type { BodyData } from '../nodes/OpenApi/lib/buildRequestOptions';
+import type { OpenApiSchema, ParsedOperation } from '../nodes/OpenApi/lib/types';
+
+describe('validateRequest', () => {
+	const noBody: BodyData = { contentType: undefined, data: {} };
+
+	const getPet: ParsedOperation = {
+		operationId: 'getPet',
+		method: 'get',
+		path: '/pets/{petId}',
+		summary: '',
+		description: '',
+		parameters: [
+			{
+				name: 'petId',
+				in: 'path',
+				required: true,
+				schema: { type: 'integer', minimum: 1 },
+				description: '',
+			},
+			{
+				name: 'status',
+				in: 'query',
+				required: false,
+				schema: { type: 'array', items: { type: 'string', enum: ['available', 'sold'] } },
+				description: '',
+			},
+			{
+				name: 'X-Request-Id',
+				in: 'header',
+				required: false,
+				schema: { type: 'string', pattern: '^[0-9a-f]{8}$' },
+				description: '',
+			},
+		],
+		requestBody: undefined,
+	};
+
+	it('accepts valid parameters given as strings', () => {
+		expect(
+			validateRequest(
+				getPet,
+				{
+					path: { petId: '42' },
+					query: { status: 'available,sold' },
+					header: { 'X-Request-Id': 'deadbeef' },
+				},
+				noBody,
+			),
+		).toEqual([]);
+	});
+
+	it('reports missing required parameters', () => {
+		expect(validateRequest(getPet, { path: { petId: '' } }, noBody)).toEqual([
+			'Path parameter "petId" is required',
+		]);
+	});
+
+	it('reports undeclared path template parameters', () => {
+		const operation: ParsedOperation = { ...getPet, path: '/stores/{storeId}/pets/{petId}' };
+		expect(validateRequest(operation, { path: { petId: 1 } }, noBody)).toEqual([
+			'Path parameter "storeId" is required',
+		]);
+	});
+
+	it('names the parameter and the violated constraint', () => {
+		expect(
+			validateRequest(
+				getPet,
+				{
+					path: { petId: 0 },
+					query: { status: '["lost"]' },
+					header: { 'X-Request-Id': 'nope' },
+				},
+				noBody,
+			),
+		).toEqual([
+			'Path parameter "petId" must be >= 1 (minimum)',
+			'Query parameter "status" at /0 must be one of "available", "sold" (enum)',
+			'Header parameter "X-Request-Id" must match pattern ^[0-9a-f]{8}$ (pattern)',
+		]);
+	});
+
+	it('validates each location separately when names repeat', () => {
+		const operation: ParsedOperation = {
+			...getPet,
+			parameters: [
+				getPet.parameters[0],
+				{
+					name: 'petId',
+					in: 'header',
+					required: false,
+					schema: { type: 'string' },
+					description: '',
+				},
+			],
+		};
+
+		expect(
+			validateRequest(operation, { path: { petId: '42' }, header: { petId: 'abc' } }, noBody),
+		).toEqual([]);
+		expect(validateRequest(operation, { header: { petId: '42' } }, noBody)).toEqual([
+			'Path parameter "petId" is required',
+		]);
+	});
+
+	describe('request body', () => {
+		const createPet: ParsedOperation = {
+			operationId: 'createPet',
+			method: 'post',
+			path: '/pets',
+			summary: '',
+			description: '',
+			parameters: [],
+			requestBody: {
+				contentType: 'application/json',
+				required: true,
+				schema: {
+					type: 'object',
+					required: ['id', 'name'],
+					properties: {
+						id: { type: 'integer', readOnly: true },
+						name: { type: 'string', minLength: 1 },
+						age: { type: 'integer', maximum: 30 },
+					},
+				},
+			},
+		};
+
+		it('requires a required body', () => {
+			expect(validateRequest(createPet, {}, { contentType: 'application/json', data: {} })).toEqual(
+				['Request body is required'],
+			);
+		});
+
+		it('validates JSON bodies and ignores read-only required properties', () => {
+			expect(
+				validateRequest(createPet, {}, { contentType: 'application/json', data: { name: 'Rex' } }),
+			).toEqual([]);
+			expect(
+				validateRequest(createPet, {}, { contentType: 'application/json', data: { age: '31' } }),
+			).toEqual([
+				'Request body at /name is required (required)',
+				'Request body at /age must be an integer (type)',
+			]);
+		});
+
+		it('coerces form values and skips binary fields filled from binary data', () => {
+			const upload: ParsedOperation = {
+				...createPet,
+				requestBody: {
+					contentType: 'multipart/form-data',
+					required: true,
+					schema: {
+						type: 'object',
+						required: ['file', 'age'],
+						properties: {
+							file: { type: 'string', format: 'binary' },
+							age: { type: 'integer', maximum: 30 },
+						},
+					},
+				},
+			};
+
+			expect(
+				validateRequest(
+					upload,
+					{},
+					{
+						contentType: 'multipart/form-data',
+						data: { age: '31' },
+						files: { file: [{ data: Buffer.from('image') }] },
+					},
+				),
+			).toEqual(['Request body at /age must be <= 30 (maximum)']);
+		});
+
+		it('validates a discriminated body against the chosen variant only', () => {
+			const pet = {
+				type: 'object',
+				required: ['petType'],
+				properties: { petType: { type: 'string' }, name: { type: 'string' } },
+			} as const;
+			const addPet: ParsedOperation = {
+				...createPet,
+				requestBody: {
+					contentType: 'application/json',
+					required: true,
+					schema: {
+						oneOf: [
+							{ title: 'Cat', allOf: [pet, { properties: { indoor: { type: 'boolean' } } }] },
+							{
+								title: 'Dog',
+								allOf: [pet, { required: ['bark'], properties: { bark: { type: 'string' } } }],
+							},
+						],
+						discriminator: {
+							propertyName: 'petType',
+							mapping: { dog: '#/components/schemas/Dog', cat: '#/components/schemas/Cat' },
+						},
+					} as OpenApiSchema,
+				},
+			};
+			const body = (data: Record<string, unknown>) =>
+				validateRequest(addPet, {}, { contentType: 'application/json', data });
+
+			expect(body({ petType: 'dog', name: 'Rex', bark: 'woof' })).toEqual([]);
+			expect(body({ petType: 'dog', name: 'Rex' })).toEqual([
+				'Request body at /bark is required (required)',
+			]);
+			expect(body({ petType: 'cow' })).toEqual([
+				'Request body at /petType must be one of "cat", "dog" (discriminator)',
+			]);
+		});
+
+		it('validates against the schema of the chosen content type', () => {
+			const operation: ParsedOperation = {
+				...createPet,
+				requestBody: {
+					...createPet.requestBody!,
+					contents: [
+						{ contentType: 'application/json', schema: createPet.requestBody!.schema },
+						{
+							contentType: 'application/x-www-form-urlencoded',
+							schema: {
+								type: 'object',
+								required: ['tag'],
+								properties: { tag: { type: 'string' } },
+							},
+						},
+					],
+				},
+			};
+
+			expect(
+				validateRequest(
+					operation,
+					{},
+					{ contentType: 'application/x-www-form-urlencoded', data: { name: 'Rex' } },
+				),
+			).toEqual(['Request body at /tag is required (required)']);
+		});
+	});
+});
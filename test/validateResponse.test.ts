@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+	findResponses,
+	findResponseSchema,
+	validateResponse,
+} from '../nodes/OpenApi/lib/validateResponse';
+import type { ParsedOperation } from '../nodes/OpenApi/lib/types';
+
+describe('validateResponse', () => {
+	const pet = {
+		type: 'object',
+		required: ['id', 'name'],
+		properties: {
+			id: { type: 'integer' },
+			name: { type: 'string' },
+			password: { type: 'string', writeOnly: true },
+		},
+	} as const;
+
+	const getPet: ParsedOperation = {
+		operationId: 'getPet',
+		method: 'get',
+		path: '/pets/{petId}',
+		summary: '',
+		description: '',
+		parameters: [],
+		requestBody: undefined,
+		responses: [
+			{ statusCode: '200', contentType: 'application/json', schema: pet },
+			{ statusCode: '200', contentType: 'application/xml', schema: pet },
+			{ statusCode: '2XX', contentType: undefined, schema: undefined },
+			{
+				statusCode: 'default',
+				contentType: 'application/problem+json',
+				schema: { type: 'object', required: ['title'] },
+			},
+		],
+	};
+
+	it('prefers exact status codes over ranges over default', () => {
+		expect(findResponses(getPet, 200)).toHaveLength(2);
+		expect(findResponses(getPet, 204)).toEqual([
+			{ statusCode: '2XX', contentType: undefined, schema: undefined },
+		]);
+		expect(findResponses(getPet, 404)[0].statusCode).toBe('default');
+	});
+
+	it('accepts bodies that match the schema', () => {
+		expect(
+			validateResponse(getPet, 200, 'application/json; charset=utf-8', { id: 1, name: 'Rex' }),
+		).toEqual([]);
+		expect(validateResponse(getPet, 204, undefined, '')).toEqual([]);
+	});
+
+	it('reports the JSON pointer of each violation', () => {
+		expect(validateResponse(getPet, 200, 'application/json', { id: '1' })).toEqual([
+			{ path: '/name', keyword: 'required', message: 'is required' },
+			{ path: '/id', keyword: 'type', message: 'must be an integer' },
+		]);
+	});
+
+	it('matches JSON media type suffixes', () => {
+		expect(validateResponse(getPet, 500, 'application/problem+json', {})).toEqual([
+			{ path: '/title', keyword: 'required', message: 'is required' },
+		]);
+	});
+
+	it('skips bodies that were not parsed', () => {
+		expect(validateResponse(getPet, 200, 'application/xml', '<pet/>')).toEqual([]);
+	});
+
+	it('validates XML bodies parsed into JSON', () => {
+		expect(validateResponse(getPet, 200, 'application/xml', { id: 1 })).toEqual([
+			{ path: '/name', keyword: 'required', message: 'is required' },
+		]);
+	});
+
+	it('checks only the status and content type of HEAD responses', () => {
+		const headPet: ParsedOperation = { ...getPet, operationId: 'headPet', method: 'head' };
+
+		expect(validateResponse(headPet, 200, 'application/json', undefined)).toEqual([]);
+		expect(validateResponse(headPet, 200, 'text/html', undefined)).toMatchObject([
+			{ keyword: 'contentType' },
+		]);
+	});
+
+	it('finds the documented schema for a media type', () => {
+		expect(findResponseSchema(getPet, 200, 'application/xml; charset=utf-8')).toBe(pet);
+		expect(findResponseSchema(getPet, 404, 'application/problem+json')).toEqual({
+			type: 'object',
+			required: ['title'],
+		});
+		expect(findResponseSchema(getPet, 204, 'text/plain')).toBeUndefined();
+	});
+
+	it('flags undocumented status codes and content types', () => {
+		const noDefault: ParsedOperation = { ...getPet, responses: getPet.responses?.slice(0, 2) };
+		expect(validateResponse(noDefault, 404, 'application/json', {})).toEqual([
+			{ path: '', keyword: 'status', message: 'status 404 is not documented' },
+		]);
+		expect(validateResponse(noDefault, 200, 'text/html', '<html/>')).toEqual([
+			{
+				path: '',
+				keyword: 'contentType',
+				message: 'content type text/html is not documented for status 200',
+			},
+		]);
+	});
+
+	it('skips operations without documented responses', () => {
+		expect(validateResponse({ ...getPet, responses: [] }, 200, 'application/json', 1)).toEqual([]);
+	});
+});
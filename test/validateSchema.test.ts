@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { formatViolation, validateSchema } from '../nodes/OpenApi/lib/validateSchema';
+import type { OpenApiSchema } from '../nodes/OpenApi/lib/types';
+
+describe('validateSchema', () => {
+	it('checks types', () => {
+		expect(validateSchema({ type: 'integer' }, 1.5)).toEqual([
+			{ path: '', keyword: 'type', message: 'must be an integer' },
+		]);
+		expect(validateSchema({ type: 'string' }, null)).toHaveLength(1);
+		expect(validateSchema({ type: 'string', nullable: true }, null)).toEqual([]);
+		expect(validateSchema({ type: ['string', 'null'] } as OpenApiSchema, null)).toEqual([]);
+	});
+
+	it('coerces strings when asked', () => {
+		expect(validateSchema({ type: 'integer', minimum: 1 }, '5', { coerceStrings: true })).toEqual(
+			[],
+		);
+		expect(
+			validateSchema({ type: 'integer', minimum: 1 }, '0', { coerceStrings: true }),
+		).toMatchObject([{ keyword: 'minimum', message: 'must be >= 1' }]);
+		expect(validateSchema({ type: 'boolean' }, 'true', { coerceStrings: true })).toEqual([]);
+		expect(validateSchema({ type: 'integer' }, '5')).toHaveLength(1);
+	});
+
+	it('checks string and number constraints', () => {
+		const keywords = (schema: OpenApiSchema, value: unknown) =>
+			validateSchema(schema, value).map((v) => v.keyword);
+
+		expect(keywords({ type: 'string', enum: ['a', 'b'] }, 'c')).toEqual(['enum']);
+		expect(keywords({ type: 'string', pattern: '^[a-z]+$' }, 'ABC')).toEqual(['pattern']);
+		expect(keywords({ type: 'string', minLength: 3, maxLength: 4 }, 'ab')).toEqual(['minLength']);
+		expect(keywords({ type: 'string', maxLength: 2 }, 'abc')).toEqual(['maxLength']);
+		expect(keywords({ type: 'number', maximum: 10 }, 11)).toEqual(['maximum']);
+		expect(keywords({ type: 'number', maximum: 10, exclusiveMaximum: true }, 10)).toEqual([
+			'maximum',
+		]);
+		expect(keywords({ type: 'number', exclusiveMinimum: 0 } as OpenApiSchema, 0)).toEqual([
+			'exclusiveMinimum',
+		]);
+		expect(keywords({ type: 'number', multipleOf: 0.1 }, 0.3)).toEqual([]);
+	});
+
+	it('reports nested violations with JSON pointers', () => {
+		const schema: OpenApiSchema = {
+			type: 'object',
+			required: ['name', 'id'],
+			properties: {
+				id: { type: 'integer', readOnly: true },
+				name: { type: 'string' },
+				tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+				'a/b': { type: 'string' },
+			},
+			additionalProperties: false,
+		};
+
+		expect(
+			validateSchema(schema, { tags: ['x', 1], 'a/b': 2, extra: true }, { direction: 'request' }),
+		).toEqual([
+			{ path: '/name', keyword: 'required', message: 'is required' },
+			{ path: '/tags/1', keyword: 'type', message: 'must be a string' },
+			{ path: '/a~1b', keyword: 'type', message: 'must be a string' },
+			{ path: '/extra', keyword: 'additionalProperties', message: 'is not an allowed property' },
+		]);
+	});
+
+	it('checks composed schemas', () => {
+		const oneOf: OpenApiSchema = {
+			oneOf: [
+				{ type: 'string', maxLength: 3 },
+				{ type: 'string', minLength: 2 },
+			],
+		};
+		expect(validateSchema(oneOf, 'a')).toEqual([]);
+		expect(validateSchema(oneOf, 'ab')).toMatchObject([{ keyword: 'oneOf' }]);
+		expect(
+			validateSchema({ anyOf: [{ type: 'integer' }, { type: 'boolean' }] }, 'x'),
+		).toMatchObject([{ keyword: 'anyOf' }]);
+		expect(validateSchema({ allOf: [{ type: 'object', required: ['id'] }] }, {})).toMatchObject([
+			{ path: '/id', keyword: 'required' },
+		]);
+	});
+
+	it('formats violations with the field name and constraint', () => {
+		expect(
+			formatViolation('Request body', {
+				path: '/age',
+				keyword: 'minimum',
+				message: 'must be >= 0',
+			}),
+		).toBe('Request body at /age must be >= 0 (minimum)');
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { OpenApiSchema } from '../nodes/OpenApi/lib/types';
+import { buildXml, parseXml, xmlToJson } from '../nodes/OpenApi/lib/xml';
+
+const pet = {
+	type: 'object',
+	xml: { name: 'Pet', namespace: 'https://example.com/pets', prefix: 'p' },
+	properties: {
+		id: { type: 'integer', xml: { attribute: true } },
+		name: { type: 'string', xml: { name: 'Name' } },
+		available: { type: 'boolean' },
+		tags: { type: 'array', items: { type: 'string', xml: { name: 'tag' } } },
+		photos: {
+			type: 'array',
+			xml: { wrapped: true, name: 'photoUrls' },
+			items: { type: 'string', xml: { name: 'url' } },
+		},
+		owner: { type: 'object', properties: { email: { type: 'string' } } },
+	},
+} as OpenApiSchema;
+
+describe('xml', () => {
+	describe('buildXml', () => {
+		it('follows the xml metadata of the schema', () => {
+			const xml = buildXml(pet, {
+				id: 1,
+				name: 'Rex & Co',
+				available: true,
+				tags: ['dog', 'brown'],
+				photos: ['a.png'],
+				owner: { email: 'a@example.com' },
+			});
+
+			expect(xml).toBe(
+				'<?xml version="1.0" encoding="UTF-8"?>\n' +
+					'<p:Pet xmlns:p="https://example.com/pets" id="1">' +
+					'<Name>Rex &amp; Co</Name>' +
+					'<available>true</available>' +
+					'<tag>dog</tag><tag>brown</tag>' +
+					'<photoUrls><url>a.png</url></photoUrls>' +
+					'<owner><email>a@example.com</email></owner>' +
+					'</p:Pet>',
+			);
+		});
+
+		it('wraps root arrays', () => {
+			const list = { type: 'array', xml: { name: 'pets' }, items: pet } as OpenApiSchema;
+
+			expect(buildXml(list, [{ id: 1 }, { id: 2 }])).toContain(
+				'<pets><p:Pet xmlns:p="https://example.com/pets" id="1"/>' +
+					'<p:Pet xmlns:p="https://example.com/pets" id="2"/></pets>',
+			);
+		});
+	});
+
+	describe('parseXml', () => {
+		it('parses elements, attributes, entities and CDATA', () => {
+			const root = parseXml(
+				'<?xml version="1.0"?><!DOCTYPE pet><!-- comment -->' +
+					'<pet id=\'7\' note="a &quot;b&quot;"><name><![CDATA[<Rex>]]></name><x/>&#65;</pet>',
+			);
+
+			expect(root.name).toBe('pet');
+			expect(root.attributes).toEqual({ id: '7', note: 'a "b"' });
+			expect(root.children.map((child) => [child.name, child.text])).toEqual([
+				['name', '<Rex>'],
+				['x', ''],
+			]);
+			expect(root.text).toBe('A');
+		});
+
+		it('rejects malformed documents', () => {
+			expect(() => parseXml('<a><b></a>')).toThrow('Malformed XML');
+			expect(() => parseXml('<a/><b/>')).toThrow('Malformed XML');
+			expect(() => parseXml('not xml')).toThrow('Malformed XML');
+		});
+	});
+
+	describe('xmlToJson', () => {
+		it('maps elements and attributes to schema properties with their types', () => {
+			const root = parseXml(
+				'<p:Pet xmlns:p="https://example.com/pets" id="1"><Name>Rex</Name>' +
+					'<available>false</available><tag>dog</tag><tag>brown</tag>' +
+					'<photoUrls><url>a.png</url></photoUrls><owner><email>a@example.com</email></owner>' +
+					'</p:Pet>',
+			);
+
+			expect(xmlToJson(root, pet)).toEqual({
+				id: 1,
+				name: 'Rex',
+				available: false,
+				tags: ['dog', 'brown'],
+				photos: ['a.png'],
+				owner: { email: 'a@example.com' },
+			});
+		});
+
+		it('converts wrapped root arrays', () => {
+			const list = { type: 'array', items: pet } as OpenApiSchema;
+			const root = parseXml('<pets><Pet id="1"/><Pet id="2"><Name>Max</Name></Pet></pets>');
+
+			expect(xmlToJson(root, list)).toEqual([{ id: 1 }, { id: 2, name: 'Max' }]);
+		});
+
+		it('converts documents without a schema', () => {
+			const root = parseXml(
+				'<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>' +
+					'<item code="a">1</item><item>2</item></soap:Body></soap:Envelope>',
+			);
+
+			expect(xmlToJson(root)).toEqual({
+				Body: { item: [{ code: 'a', '#text': '1' }, '2'] },
+			});
+		});
+	});
+});